@@ -0,0 +1,173 @@
+// ======================================================================
+// shared/action-cards.ts
+// Az akciókártyák adatfájlból (data/actionCards.json) töltődnek be.
+// Betöltéskor minden kártyát ellenőrzünk az IActionEffect sémája szerint
+// (egy kártyán több hatás is lehet, feltételekkel); hibás fájl esetén az
+// összes hibát egyszerre jelezzük, és nem indulunk el.
+// ======================================================================
+
+import { CardRarity, IActionCard, IActionEffect, IEffectCondition, RevealSource } from './interfaces';
+import { isKnownMetric } from './metric-registry';
+
+export const RARITY_DEFAULT_DECK_WEIGHTS: Record<CardRarity, number> = {
+  common: 4,
+  uncommon: 2,
+  rare: 1,
+  epic: 0.5,
+};
+
+const EFFECT_TYPES: IActionEffect['type'][] = ['time_mod', 'metric_mod_temp', 'metric_mod_perm', 'override_metric', 'drop_card', 'extra_turn', 'reveal', 'steal', 'swap', 'recycle', 'cancel_action', 'reflect_action'];
+const EFFECT_TARGETS: IActionEffect['target'][] = ['self', 'opponent', 'game'];
+const MODIFIER_TYPES: NonNullable<IActionEffect['modifierType']>[] = ['percentage', 'absolute'];
+const REVEAL_SOURCES: RevealSource[] = ['opponent_hand', 'draw_pile'];
+const REACTION_EFFECT_TYPES: IActionEffect['type'][] = ['cancel_action', 'reflect_action'];
+const CONDITION_TYPES: IEffectCondition['type'][] = ['score_behind', 'score_ahead', 'selected_metric'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+// Egy feltétel hibáit adja vissza (üres lista = érvényes)
+const validateCondition = (condition: unknown): string[] => {
+  if (!isObject(condition) || !CONDITION_TYPES.includes(condition.type as IEffectCondition['type'])) {
+    return [`condition type must be one of ${CONDITION_TYPES.join(', ')}`];
+  }
+  if (condition.type === 'selected_metric') {
+    const metrics = condition.metrics;
+    if (!Array.isArray(metrics) || metrics.length === 0 || !metrics.every(metric => typeof metric === 'string' && isKnownMetric(metric))) {
+      return ['selected_metric condition requires metrics from the metric registry'];
+    }
+  }
+  return [];
+};
+
+// Egy hatás hibáit adja vissza (üres lista = érvényes)
+const validateActionEffect = (effect: unknown): string[] => {
+  if (!isObject(effect)) return ['must be an object'];
+
+  const errors: string[] = [];
+  const type = effect.type as IActionEffect['type'];
+  if (!EFFECT_TYPES.includes(type)) {
+    errors.push(`type must be one of ${EFFECT_TYPES.join(', ')}`);
+  }
+  if (!EFFECT_TARGETS.includes(effect.target as IActionEffect['target'])) {
+    errors.push(`target must be one of ${EFFECT_TARGETS.join(', ')}`);
+  }
+  if (effect.conditions !== undefined) {
+    if (Array.isArray(effect.conditions)) {
+      errors.push(...effect.conditions.flatMap(validateCondition));
+    } else {
+      errors.push('conditions must be an array');
+    }
+  }
+
+  switch (type) {
+    case 'time_mod':
+      if (!isFiniteNumber(effect.value)) errors.push('time_mod requires a numeric value');
+      break;
+    case 'metric_mod_temp':
+    case 'metric_mod_perm':
+      if (!isFiniteNumber(effect.value)) errors.push(`${type} requires a numeric value`);
+      if (typeof effect.targetMetric !== 'string' || !isKnownMetric(effect.targetMetric)) {
+        errors.push(`${type} requires a targetMetric from the metric registry`);
+      }
+      if (!MODIFIER_TYPES.includes(effect.modifierType as NonNullable<IActionEffect['modifierType']>)) {
+        errors.push(`${type} requires modifierType ${MODIFIER_TYPES.join(' or ')}`);
+      }
+      break;
+    case 'reveal':
+      if (!REVEAL_SOURCES.includes(effect.revealSource as RevealSource)) {
+        errors.push(`reveal requires revealSource ${REVEAL_SOURCES.join(' or ')}`);
+      }
+      if (effect.value !== undefined && !isPositiveInteger(effect.value)) errors.push('reveal value must be a positive integer');
+      if (effect.revealSource === 'draw_pile' && effect.value === undefined) errors.push('reveal from the draw pile requires a value');
+      if (effect.durationRounds !== undefined && !isPositiveInteger(effect.durationRounds)) errors.push('reveal durationRounds must be a positive integer');
+      break;
+    case 'steal':
+      if (effect.value !== undefined && !isPositiveInteger(effect.value)) errors.push('steal value must be a positive integer');
+      break;
+    case 'override_metric':
+      if (effect.availableMetrics !== undefined) {
+        const unknown = isObject(effect.availableMetrics)
+          ? Object.keys(effect.availableMetrics).filter(metric => !isKnownMetric(metric))
+          : ['(not an object)'];
+        if (unknown.length > 0) errors.push(`override_metric availableMetrics contains unknown metric(s): ${unknown.join(', ')}`);
+      }
+      break;
+  }
+  return errors;
+};
+
+/**
+ * Ellenőrzi és kártyadefiníciókká alakítja az adatfájl tartalmát.
+ * A kép fájlnevéből a szerver /images útvonalán elérhető URL lesz.
+ *
+ * @param data Az actionCards.json feldolgozott tartalma
+ * @param serverUrl A képek kiszolgálójának címe
+ */
+export const parseActionCards = (data: unknown, serverUrl: string): IActionCard[] => {
+  if (!Array.isArray(data)) {
+    throw new Error('actionCards.json must contain an array of action cards.');
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+  const cards: IActionCard[] = [];
+
+  (data as unknown[]).forEach((entry, index) => {
+    const label = isObject(entry) && isNonEmptyString(entry.id) ? entry.id : `#${index}`;
+    const cardErrors: string[] = [];
+    if (!isObject(entry)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+    const raw = entry;
+
+    if (!isNonEmptyString(raw.id)) cardErrors.push('id is required');
+    else if (seenIds.has(raw.id)) cardErrors.push('duplicate id');
+    if (!isNonEmptyString(raw.name)) cardErrors.push('name is required');
+    if (!isNonEmptyString(raw.description)) cardErrors.push('description is required');
+    if (raw.image !== undefined && !isNonEmptyString(raw.image)) cardErrors.push('image must be a file name');
+    if (!Object.keys(RARITY_DEFAULT_DECK_WEIGHTS).includes(raw.rarity as string)) {
+      cardErrors.push(`rarity must be one of ${Object.keys(RARITY_DEFAULT_DECK_WEIGHTS).join(', ')}`);
+    }
+    if (raw.deckWeight !== undefined && !(isFiniteNumber(raw.deckWeight) && raw.deckWeight > 0)) {
+      cardErrors.push('deckWeight must be a positive number');
+    }
+    if (!Array.isArray(raw.actionEffects) || raw.actionEffects.length === 0) {
+      cardErrors.push('actionEffects must be a non-empty array');
+    } else {
+      raw.actionEffects.forEach((effect, effectIndex) => {
+        cardErrors.push(...validateActionEffect(effect).map(error => `actionEffects[${effectIndex}]: ${error}`));
+      });
+      // Egy reakciókártya egyszerre csak egy módon válaszolhat (semlegesít vagy visszafordít)
+      const reactionEffects = raw.actionEffects.filter(effect => isObject(effect) && REACTION_EFFECT_TYPES.includes(effect.type as IActionEffect['type']));
+      if (reactionEffects.length > 1) cardErrors.push('a card can have at most one reaction effect (cancel_action or reflect_action)');
+    }
+
+    if (cardErrors.length > 0) {
+      errors.push(...cardErrors.map(error => `${label}: ${error}`));
+      return;
+    }
+
+    const rarity = raw.rarity as CardRarity;
+    seenIds.add(raw.id as string);
+    cards.push({
+      id: raw.id as string,
+      name: raw.name as string,
+      type: 'action',
+      description: raw.description as string,
+      imageUrl: raw.image ? `${serverUrl}/images/${raw.image}` : undefined,
+      rarity,
+      deckWeight: (raw.deckWeight as number | undefined) ?? RARITY_DEFAULT_DECK_WEIGHTS[rarity],
+      actionEffects: raw.actionEffects as IActionEffect[],
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid action card definitions:\n  - ${errors.join('\n  - ')}`);
+  }
+  return cards;
+};
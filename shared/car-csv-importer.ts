@@ -0,0 +1,165 @@
+// ======================================================================
+// shared/car-csv-importer.ts
+// A CarList.csv (a közösségi autós táblázat exportja) feldolgozása autós kártyákká.
+// Minden elutasított sort okkal együtt jelent, és hangosan elhasal, ha a
+// táblázat fejlécei megváltoztak, ahelyett hogy csendben üres paklit adna.
+// ======================================================================
+
+import { CardMetrics, ICarCard } from './interfaces';
+import { METRIC_REGISTRY } from './metric-registry';
+
+/**
+ * A kártyák nem metrikus oszlopai és a hozzájuk tartozó fejlécek a táblázatban.
+ * A metrikák oszlopait a METRIC_REGISTRY adja meg. Ha a táblázatban átneveznek
+ * egy oszlopot, itt (vagy a regiszterben) kell követni.
+ */
+export const CAR_CSV_COLUMNS = {
+  brand: 'Makes: 96',
+  model: 'Models: 675',
+  engineType: 'Engine',
+} as const;
+
+export interface RejectedCarRow {
+  line: number;   // Sor a CSV fájlban (1-től számozva, a fejléc az 1. sor)
+  reason: string;
+}
+
+export interface CarCsvImportResult {
+  cars: ICarCard[];
+  rejected: RejectedCarRow[];
+}
+
+/**
+ * Egyszerű RFC 4180 szerinti CSV feldolgozó: idézőjeles mezők, bennük
+ * vessző, sortörés és duplázott idézőjel ("") is lehet.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Számmá alakít egy cellát. Az ezres elválasztó vesszőket ("43,000") elhagyja;
+ * üres vagy nem szám cella esetén null-t ad.
+ */
+export const parseCsvNumber = (value: string | undefined): number | null => {
+  const cleaned = (value ?? '').trim().replace(/,(?=\d{3}(\D|$))/g, '');
+  if (cleaned === '') return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Stabil, URL-barát azonosító: CAR_<MÁRKA>_<MODELL>_<ÉV>
+export const createCarCardId = (brand: string, model: string, year: number): string =>
+  `CAR_${brand.toUpperCase().replace(/[^A-Z0-9]/g, '')}_${model.toUpperCase().replace(/[^A-Z0-9]/g, '')}_${year}`;
+
+/**
+ * A CSV tartalmát autós kártyákká alakítja, a fájlbeli sorrendet megtartva.
+ * Hiányzó kötelező fejléc esetén kivételt dob.
+ *
+ * @param csvText A CarList.csv teljes tartalma
+ * @param imageUrl A kártyákhoz rendelt kép (egyelőre mindenhol ugyanaz)
+ */
+export const importCarsFromCsv = (csvText: string, imageUrl?: string): CarCsvImportResult => {
+  const [header, ...rows] = parseCsv(csvText);
+  if (!header) {
+    throw new Error('CarList.csv is empty: the header row is missing.');
+  }
+
+  // Az opcionális metrikák oszlopai is kötelezőek a fejlécben: egy átnevezés különben csendben eltüntetné a metrikát
+  const requiredColumns = [...Object.values(CAR_CSV_COLUMNS), ...METRIC_REGISTRY.map(metric => metric.sourceColumn)];
+  const missingColumns = requiredColumns.filter(column => !header.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`CarList.csv header mismatch: missing column(s) ${missingColumns.map(c => `"${c}"`).join(', ')}. Update CAR_CSV_COLUMNS or METRIC_REGISTRY if the sheet was renamed.`);
+  }
+
+  const cars: ICarCard[] = [];
+  const rejected: RejectedCarRow[] = [];
+  const seenIds = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    if (cells.every(cell => cell.trim() === '')) return; // Üres sor (pl. a fájl végén)
+
+    const cell = (column: string) => (cells[header.indexOf(column)] ?? '').trim();
+    const brand = cell(CAR_CSV_COLUMNS.brand);
+    const model = cell(CAR_CSV_COLUMNS.model);
+    if (!brand || !model) {
+      rejected.push({ line, reason: 'missing brand or model' });
+      return;
+    }
+
+    const metrics = {} as CardMetrics;
+    const invalidMetrics: string[] = [];
+    METRIC_REGISTRY.forEach(({ id, sourceColumn, required }) => {
+      const value = parseCsvNumber(cell(sourceColumn));
+      // A gyorsulás és a tömeg osztóként/összehasonlításként is szerepel, ezért mindennek pozitívnak kell lennie
+      if (value !== null && value > 0) {
+        metrics[id] = value;
+      } else if (required) {
+        invalidMetrics.push(`${sourceColumn}="${cell(sourceColumn)}"`);
+      }
+    });
+    if (invalidMetrics.length > 0) {
+      rejected.push({ line, reason: `non-positive or missing metric(s): ${invalidMetrics.join(', ')}` });
+      return;
+    }
+
+    const id = createCarCardId(brand, model, metrics.year);
+    if (seenIds.has(id)) {
+      rejected.push({ line, reason: `duplicate card id ${id}` });
+      return;
+    }
+    seenIds.add(id);
+
+    cars.push({
+      id,
+      name: `${brand} ${model} (${metrics.year})`,
+      type: 'car',
+      description: `A ${metrics.year}-es gyártású ${brand} ${model}.`,
+      brand,
+      model,
+      metrics,
+      carRank: 'D', // Ideiglenes, a calculateCarRanks állítja be
+      engineType: cell(CAR_CSV_COLUMNS.engineType) || 'Unknown',
+      imageUrl,
+    });
+  });
+
+  return { cars, rejected };
+};
@@ -7,13 +7,18 @@
 import { v4 as uuidv4 } from 'uuid'; // npm install uuid, @types/uuid
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 // Assuming interfaces.ts is in the same directory or accessible
-import { IGameState, IPlayerState, GameStatus, ICardDefinition, ICardInstance, ICarCard, IActionCard, MetricType, PlayerId, CardMetrics } from './interfaces';
-import CarList from '../shared/data/CarList.json';
+import { IGameState, IPlayerState, GameStatus, ICardDefinition, ICardInstance, ICarCard, IActionCard, IActionEffect, MetricType, PlayerId, DrawRecipient, DeckOutRule, MatchFormat, IGameRules, ITimeControl, IGameSetup, ForfeitReason, PlayerActionPhase, IPlayCardPayload, GameLogCode, IGameLogParams, GameEndReason } from './interfaces';
+import { importCarsFromCsv } from './car-csv-importer';
+import { parseActionCards } from './action-cards';
+import { METRIC_REGISTRY, CORE_METRICS, isKnownMetric, compareMetricValues } from './metric-registry';
 // --- Determinisztikus RNG ---
 class DeterministicRNG {
   private seed: number;
   constructor(seed: number) { this.seed = seed; }
+  // A generátor aktuális állapota; ebből folytatva ugyanaz a sorozat jön, mintha nem állt volna meg
+  getState(): number { return this.seed; }
   next(): number {
     this.seed ^= this.seed << 13; this.seed ^= this.seed >> 17; this.seed ^= this.seed << 5;
     return ((this.seed < 0 ? ~this.seed + 1 : this.seed) % 100000) / 100000;
@@ -29,8 +34,81 @@ class DeterministicRNG {
   pickRandom<T>(array: T[]): T {
     return array[Math.floor(this.next() * array.length)];
   }
+  // Visszatevés nélküli, súlyozott mintavétel: a nagyobb súlyú elem nagyobb eséllyel kerül be
+  weightedSample<T>(array: T[], count: number, weightOf: (item: T) => number): T[] {
+    const remaining = [...array];
+    const picked: T[] = [];
+    while (picked.length < count && remaining.length > 0) {
+      const totalWeight = remaining.reduce((sum, item) => sum + weightOf(item), 0);
+      let roll = this.next() * totalWeight;
+      let index = remaining.findIndex(item => (roll -= weightOf(item)) < 0);
+      if (index === -1) index = remaining.length - 1; // Kerekítési hiba esetén az utolsó
+      picked.push(...remaining.splice(index, 1));
+    }
+    return picked;
+  }
 }
 
+// A játék egyetlen, folyamatosan továbbhaladó RNG-folyama: a state.rngState-ből folytatódik,
+// és a húzások után oda íródik vissza. Csak már lemásolt állapoton hívható.
+const drawFromGameRng = <T>(state: IGameState, draw: (rng: DeterministicRNG) => T): T => {
+  const rng = new DeterministicRNG(state.rngState);
+  const result = draw(rng);
+  state.rngState = rng.getState();
+  return result;
+};
+
+// --- Idő ---
+// A motor nem olvassa közvetlenül a rendszerórát: az időbélyegeket a hívó által átadott
+// kontextusból kéri le. A szerver a valós órát, az eseménynapló visszajátszása az esemény
+// rögzített időpontját, egy szimuláció pedig a saját (pl. gyorsított) óráját adhatja át.
+export interface IEngineContext {
+  now: () => number;
+}
+
+export const SYSTEM_ENGINE_CONTEXT: IEngineContext = { now: () => Date.now() };
+
+// Mindig ugyanazt az időpontot adó kontextus (visszajátszáshoz és tesztekhez)
+export const createFixedTimeContext = (timestamp: number): IEngineContext => ({ now: () => timestamp });
+
+// --- Sakkóra ---
+// Minden játékosnak saját időbankja van. Az óra csak akkor jár, amikor a soron lévő játékos
+// döntésére várunk; az összehasonlítás, a kör lezárása és a reakcióablak (saját, rövid ideje van)
+// alatt áll. A bankot lépéskor vonjuk le a kör (vagy az előző lépés) óta eltelt idővel.
+const CLOCK_RUNNING_PHASES: PlayerActionPhase[] = ['waiting_for_initial_play', 'waiting_for_car_card_after_action', 'must_discard'];
+
+export const isClockRunning = (state: IGameState): boolean =>
+  state.gameStatus === 'playing' && CLOCK_RUNNING_PHASES.includes(state.currentPlayerPhase);
+
+/**
+ * A játékos hátralévő ideje az adott pillanatban: ha az ő órája jár, a kör eleje óta
+ * eltelt időt is levonjuk. A szerver ebből állítja be a lépés időzítőjét.
+ */
+export const getRemainingTimeMs = (state: IGameState, playerId: PlayerId, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): number => {
+  const player = getPlayerState(state, playerId);
+  if (!isClockRunning(state) || state.currentPlayerId !== playerId) return player.timeBankMs;
+  return Math.max(0, player.timeBankMs - (context.now() - state.currentTurnStartTime));
+};
+
+// A soron lévő játékos lépésének elszámolása: levonjuk az eltelt időt, jóváírjuk a növekményt,
+// és innen indul újra az óra. Csak már lemásolt állapoton, a lépés végrehajtása előtt hívható.
+// Az időtúllépés miatti automatikus lépést nem terheljük a kiürült bankra (különben a játékosnak
+// csak a növekmény maradna, és a további lépései is sorra lejárnának): a bank a kör eleji értéken marad.
+const chargeMoveTime = (state: IGameState, player: IPlayerState, context: IEngineContext, automatic: boolean): void => {
+  if (!isClockRunning(state) || state.currentPlayerId !== player.id) return;
+  if (!automatic) {
+    player.timeBankMs = getRemainingTimeMs(state, player.id, context) + state.timeControl.incrementMs;
+  }
+  state.currentTurnStartTime = context.now();
+};
+
+// --- Játéknapló ---
+// A napló típusos bejegyzésekből áll; a megjelenítendő szöveget a kliens állítja elő
+// a saját nyelvén (formatGameLogEntry, shared/game-log.ts).
+const logEvent = (state: IGameState, context: IEngineContext, code: GameLogCode, params: IGameLogParams = {}): void => {
+  state.gameLog.push({ code, params, timestamp: context.now() });
+};
+
 // --- Segédfüggvények ---
 const getPlayerState = (state: IGameState, playerId: PlayerId): IPlayerState => {
   const player = state.players.find(p => p.id === playerId);
@@ -46,14 +124,8 @@ const getOpponentPlayerState = (state: IGameState, playerId: PlayerId): IPlayerS
 
 // --- Kártya Rangszámítás Logika ---
 
-// Define weights for each metric (customize as needed)
-const METRIC_WEIGHTS: { [K in keyof CardMetrics]?: number } = {
-  speed: 1.0,
-  hp: 0.9,
-  accel: 0.8, // Lower is better
-  weight: 0.7, // Lower is better
-  year: 0.5,
-};
+// A rangszámításba a regiszterben súllyal ellátott metrikák számítanak bele
+const RANKED_METRICS = METRIC_REGISTRY.filter(metric => metric.rankWeight !== undefined);
 
 const ENGINE_TYPE_SCORES: { [key: string]: number } = {
   Electric: 1.0,
@@ -78,32 +150,27 @@ export function calculateCarRanks(deck: ICarCard[]): ICarCard[] {
   if (deck.length === 0) return deck;
 
   // Find min/max for each metric
-  const metrics = Object.keys(METRIC_WEIGHTS) as (keyof CardMetrics)[];
-  const minMax: { [K in keyof CardMetrics]?: { min: number; max: number } } = {};
-  metrics.forEach((metric) => {
+  const minMax: { [metric: string]: { min: number; max: number } } = {};
+  RANKED_METRICS.forEach(({ id }) => {
     const values = deck
-      .map((card) => card.metrics[metric])
+      .map((card) => card.metrics[id])
       .filter((v) => typeof v === 'number') as number[];
-    minMax[metric] = {
+    minMax[id] = {
       min: Math.min(...values),
       max: Math.max(...values),
     };
   });
 
-  // For scoring, lower accel and weight are better
-  const invertMetric: { [K in keyof CardMetrics]?: boolean } = { accel: true, weight: true };
-
-  // Calculate scores
+  // Calculate scores (lower-is-better metrics are inverted)
   const scores = deck.map((card) => {
     let score = 0;
     let totalWeight = 0;
-    metrics.forEach((metric) => {
-      const value = card.metrics[metric];
-      const { min, max } = minMax[metric]!;
-      const weight = METRIC_WEIGHTS[metric]!;
-      const norm = normalize(value, min, max, invertMetric[metric]);
-      score += norm * weight;
-      totalWeight += weight;
+    RANKED_METRICS.forEach(({ id, rankWeight, lowerIsBetter }) => {
+      const value = card.metrics[id] ?? 0;
+      const { min, max } = minMax[id];
+      const norm = normalize(value, min, max, lowerIsBetter);
+      score += norm * rankWeight!;
+      totalWeight += rankWeight!;
     });
     // Engine type as bonus
     score += getEngineScore(card.engineType || '') * 0.5;
@@ -138,200 +205,50 @@ export function calculateCarRanks(deck: ICarCard[]): ICarCard[] {
   }));
 }
 
-// --- JSON Autó Adatok Feldolgozása ---
-
-// Define the JSON car data structure
-interface JsonCarData {
-  Year?: number;
-  'Makes: 96'?: string; // Brand
-  'Models: 675'?: string; // Model
-  'Car Value'?: string;
-  HP?: number;
-  Wt?: number;
-  'Top Speed'?: number;
-  '0-60 Sec'?: number;
-  'Special Reward/Gift'?: string;
-  Engine?: string;
-  // További mezők, amik a JSON-ban vannak
-  FALSE?: string;
-  'Year Makes: 96 Models: 675'?: string;
-  Nickname?: string;
-  Ordinal?: number;
-  'Access Type'?: string;
-  'DLC Pack'?: string;
-  'Direct Access'?: string;
-  Rarity?: string;
-  'FE Boost'?: string;
-  'Featured Sale Deadline'?: string;
-  'Car Division'?: string;
-  Spec?: string;
-  PI?: number;
-  Class?: string;
-  S?: number;
-  B?: number;
-  H?: number;
-  A?: number;
-  L?: number;
-  O?: number;
-  T?: number;
-  'Wt / HP'?: number;
-  '%'?: number;
-  'Displ cc'?: number;
-  Aspiration?: string;
-  Cylinders?: number;
-  Eng?: string;
-  Drive?: string;
-  'F Tire/RRim'?: string;
-  'R Tire/RRim'?: string;
-  'Track Width'?: string;
-  'Aero or kit Options'?: string;
-  'Engine Conversions (hp)'?: string;
-  'Aspiration Options'?: string;
-  'Naturally Aspirated'?: string;
-  Region?: string;
-  Country?: string;
-  'Model Family'?: string;
-  'Open Top'?: string;
-  Doors?: number;
-  Steering?: string;
-  Wheels?: number;
-  'No lights'?: string;
-  'Car Themes'?: string;
-  '0-100 Sec'?: number;
-  '1/4 Mile'?: number;
-  '60-0 Feet'?: number;
-  '100-0 Ft'?: number;
-  "60 mph g's"?: number;
-  "100mph g's"?: number;
-  '60-100 sec'?: number;
-  'MM VIN'?: number;
-  'FM Debut'?: string;
-  'FH5 Debut'?: string;
-  'Forza Debut'?: string;
-  'Latest game'?: string;
-  'New to Forza'?: string;
-  FM?: string;
-  FH5?: string;
-  FH4?: string;
-  FM7?: string;
-  FH3?: string;
-  FM6?: string;
-  FH2?: string;
-  FM5?: string;
-  FH1?: string;
-  FM4?: string;
-  FM3?: string;
-  FM2?: string;
-  FM1?: string;
-  '# Titles'?: number;
-  'Xbox gen'?: string;
-  ''?: number;
-}
+// --- Autó Adatok Betöltése (CarList.csv) ---
 
 /**
- * Converts JSON car data into ICarCard objects.
+ * Beolvassa az autókat a CarList.csv-ből, rangot számol, és visszaadja az első maxCars darabot.
+ * Az elutasított sorokat okkal együtt naplózza; hiányzó fejléc esetén kivételt dob.
  *
- * @param jsonData Array of car data from JSON file
+ * @param maxCars Maximum number of cars to return (default: 50)
  * @returns An array of ICarCard objects
  */
-export function parseJsonToCarCards(jsonData: JsonCarData[]): ICarCard[] {
-  const cars: ICarCard[] = [];
-
-  jsonData.forEach((carData, index) => {
-    try {
-      // Safely access values, providing a fallback for missing data
-      const brand = carData['Makes: 96'] || 'Unknown Brand';
-      let model: string = 'Unknown Model';
-      if (carData['Models: 675'] !== undefined && carData['Models: 675'] !== null) {
-        model = String(carData['Models: 675']);
-      }
-      // Ensure model is always a string before using toUpperCase
-      model = String(model);
-      const year = carData.Year || 0;
-      // Debug log before ID generation
-      console.log('Generating ID for car:', { brand, model, year });
-      const speed = carData['Top Speed'] || 0;
-      const hp = carData.HP || 0;
-      const accel = carData['0-60 Sec'] || 0;
-      const weight = carData.Wt || 0;
-      const engineType = carData.Engine || 'Unknown';
-
-      // Validation: if any essential metric is 0, skip this car
-      // Also ensure accel and weight are positive as they are divisors/comparators
-      if (speed <= 0 || hp <= 0 || accel <= 0 || weight <= 0 || year <= 0) {
-        return; // Skip this car if essential data is missing or invalid
-      }
-      
-      // Use a single placeholder image for all cars during testing
-      // (Name-based mapping commented out for consistency)
-      // const imageSlug = `${brand}-${model}-${year}`.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-');
-      // const brandSlug = brand.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-');
-      const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
-      const PLACEHOLDER = process.env.PLACEHOLDER_CAR_IMAGE || `${SERVER_URL}/images/placeholder-car.png`;
-      const imageUrl = PLACEHOLDER;
-      const brandLogoUrl = undefined as unknown as string | undefined;
-
-      cars.push({
-        // Dynamic ID based on car data, made URL-friendly
-        id: `CAR_${String(brand).toUpperCase().replace(/[^A-Z0-9]/g, '')}_${String(model).toUpperCase().replace(/[^A-Z0-9]/g, '')}_${year}`,
-        name: `${brand} ${model} (${year})`,
-        type: 'car',
-        description: `A ${year}-es gyártású ${brand} ${model}.`, // Simple description in Hungarian
-        brand: brand,
-        model: model,
-        metrics: {
-          speed: speed,
-          hp: hp,
-          accel: accel,
-          weight: weight,
-          year: year,
-        },
-        carRank: 'D', // Temporary, will be assigned by calculateCarRanks
-        engineType: engineType,
-        imageUrl: imageUrl,
-        brandLogoUrl: brandLogoUrl,
-      });
-    } catch (e) {
-      console.error(`Error processing car ${index + 1}:`, carData, 'Error:', e);
-      // Skip this car and continue
-    }
-  });
+export function readCarsFromCsv(maxCars: number = 50): ICarCard[] {
+  const csvPath = path.join(__dirname, 'data', 'CarList.csv');
+  const csvText = fs.readFileSync(csvPath, 'utf-8');
+
+  const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
+  const PLACEHOLDER = process.env.PLACEHOLDER_CAR_IMAGE || `${SERVER_URL}/images/placeholder-car.png`;
+  const { cars, rejected } = importCarsFromCsv(csvText, PLACEHOLDER);
 
-  return cars;
+  if (rejected.length > 0) {
+    console.warn(`[GameEngine] CarList.csv: ${rejected.length} row(s) rejected.`);
+    rejected.forEach(({ line, reason }) => console.debug(`[GameEngine] CarList.csv line ${line}: ${reason}`));
+  }
+
+  // A rangokat a teljes katalógushoz képest számoljuk, csak utána vágjuk le
+  const limitedCars = calculateCarRanks(cars).slice(0, maxCars);
+  console.log(`Successfully loaded and ranked ${limitedCars.length} cars from CarList.csv.`);
+  return limitedCars;
 }
 
-/**
- * Reads cars from the CarList.ts file and returns a limited number of cars with calculated ranks.
- * This function needs to be adapted for server-side Node.js environment.
- *
- * @param maxCars Maximum number of cars to return (default: 50)
- * @returns An array of ICarCard objects
- */
-export function readCarsFromJson(maxCars: number = 50): ICarCard[] {
-  try {
-    const jsonData = CarList as JsonCarData[]; 
-    
-    const allCars = parseJsonToCarCards(jsonData);
-    
-    // Calculate ranks for all cars
-    const rankedCars = calculateCarRanks(allCars);
 
-    // Return only the specified number of cars
-    const limitedCars = rankedCars.slice(0, maxCars);
-    
-    console.log(`Successfully loaded and ranked ${limitedCars.length} cars from CarList.json.`);
-    return limitedCars;
-  } catch (error) {
-    console.error('Error reading or processing CarList.json:', error);
-    // Return empty array if file cannot be read
-    return [];
-  }
+// --- Akciókártyák Betöltése (actionCards.json) ---
+
+// Hibás adatfájl esetén kivételt dob, így a szerver nem indul el hiányos kártyakészlettel.
+export function readActionCardsFromFile(): IActionCard[] {
+  const filePath = path.join(__dirname, 'data', 'actionCards.json');
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
+  return parseActionCards(data, SERVER_URL);
 }
 
 
 // --- Kártya Adatbázis Kezelés ---
 // Ezt a tömböt töltjük fel a dinamikusan betöltött és a statikus kártyadefiníciókkal.
 let ALL_GAME_CARD_DEFINITIONS: ICardDefinition[] = [];
+let CARD_CATALOG_VERSION: string | null = null;
 
 // Ez a függvény tölti be a kártyákat egyszer a játék indítása előtt.
 export const loadCardDefinitions = () => {
@@ -339,80 +256,15 @@ export const loadCardDefinitions = () => {
         return; // Már be voltak töltve
     }
 
-    // Autós kártyák betöltése JSON-ból és rangok számítása
-    const jsonCarCards = readCarsFromJson(50); // Például 50 autós kártya betöltése
+    // Autós kártyák betöltése a CSV-ből és rangok számítása
+    const csvCarCards = readCarsFromCsv(50); // Például 50 autós kártya betöltése
 
-    // Statikus akciókártya definíciók (ahogy eddig is voltak)
-    const SERVER_URL = process.env.SERVER_URL || 'http://localhost:3000';
-    
-    const staticActionCards: IActionCard[] = [
-      // Globális hatás
-    { 
-      id: "ACTION_TIME_BOOST", 
-      name: "Időbónusz", 
-      type: "action", 
-      description: "+30 mp",
-      imageUrl: `${SERVER_URL}/images/action-time-boost.png`,
-      actionEffect: { type: "time_mod", value: 30, target: 'game' }
-    },
-
-    // Saját magára ható (pozitív) hatások
-    { 
-      id: "ACTION_HP_BOOST_TEMP", 
-      name: "Turbó Feltöltés", 
-      type: "action", 
-      description: "+20% HP (ideiglenes)",
-      imageUrl: `${SERVER_URL}/images/action-hp-boost-temp.png`,
-      actionEffect: { type: "metric_mod_temp", targetMetric: "hp", value: 20, modifierType: "percentage", target: 'self' }
-    },
-    { 
-      id: "ACTION_HP_BOOST_PERM", 
-      name: "Örök Tuning", 
-      type: "action", 
-      description: "+50 HP (permanens)",
-      imageUrl: `${SERVER_URL}/images/action-hp-boost-perm.png`,
-      actionEffect: { type: "metric_mod_perm", targetMetric: "hp", value: 50, modifierType: "absolute", target: 'self' }
-    },
-    { 
-      id: "ACTION_EXTRA_TURN", 
-      name: "Extra Kör", 
-      type: "action", 
-      description: "Még egy kör",
-      imageUrl: `${SERVER_URL}/images/action-extra-turn.png`,
-      actionEffect: { type: "extra_turn", target: 'self' }
-    },
-
-    // Ellenfélre ható (negatív) hatások
-    { 
-      id: "ACTION_WEIGHT_PENALTY_TEMP", 
-      name: "Homokzsák", 
-      type: "action", 
-      description: "+200 kg (ideiglenes)",
-      imageUrl: `${SERVER_URL}/images/action-weight-penalty-temp.png`,
-      actionEffect: { type: "metric_mod_temp", targetMetric: "weight", value: 200, modifierType: "absolute", target: 'opponent' }
-    },
-    { 
-      id: "ACTION_DROP_CARD", 
-      name: "Lap Lehúzás", 
-      type: "action", 
-      description: "Ellenféltől lapot vesz el",
-      imageUrl: `${SERVER_URL}/images/action-drop-card.png`,
-      actionEffect: { type: "drop_card", target: 'opponent' }
-    },
-
-    // Speciális, helyzetfüggő hatás
-    { 
-      id: "ACTION_OVERRIDE_METRIC_CHOICE", 
-      name: "Taktikai Váltás", 
-      type: "action", 
-      description: "Válassz új metrikát!",
-      imageUrl: `${SERVER_URL}/images/action-override-metric.png`,
-      actionEffect: { type: "override_metric", availableMetrics: { speed: 0, hp: 0, accel: 0, weight: 0, year: 0 }, target: 'self' }
-    },
-  ];
-
-    ALL_GAME_CARD_DEFINITIONS = [...jsonCarCards, ...staticActionCards];
-    console.log(`Összesen ${jsonCarCards.length} autós és ${staticActionCards.length} akciókártya definíció betöltve.`);
+    // Akciókártyák az adatfájlból (data/actionCards.json), betöltéskor validálva
+    const actionCards = readActionCardsFromFile();
+
+    ALL_GAME_CARD_DEFINITIONS = [...csvCarCards, ...actionCards];
+    CARD_CATALOG_VERSION = null;
+    console.log(`Összesen ${csvCarCards.length} autós és ${actionCards.length} akciókártya definíció betöltve.`);
 };
 
 // Ez a függvény adja vissza a kártya definíciókat az ID alapján.
@@ -424,6 +276,27 @@ export const getCardDefinition = (cardId: string): ICardDefinition | undefined =
   return ALL_GAME_CARD_DEFINITIONS.find(card => card.id === cardId);
 };
 
+// Az összes betöltött kártyadefiníció (pl. a REST API katalógusához).
+export const getAllCardDefinitions = (): ICardDefinition[] => {
+  if (ALL_GAME_CARD_DEFINITIONS.length === 0) {
+      loadCardDefinitions();
+  }
+  return [...ALL_GAME_CARD_DEFINITIONS];
+};
+
+/**
+ * A betöltött kártyakatalógus lenyomata. A visszajátszás ezzel ellenőrzi, hogy a naplót
+ * ugyanazzal a katalógussal rögzítették-e. A kép URL-jei a szerver címétől függenek,
+ * a játékmenetet nem érintik, ezért nem számítanak bele.
+ */
+export const getCardCatalogVersion = (): string => {
+  if (CARD_CATALOG_VERSION === null) {
+    const catalog = JSON.stringify(getAllCardDefinitions(), (key, value) => (key === 'imageUrl' || key === 'brandLogoUrl' ? undefined : value));
+    CARD_CATALOG_VERSION = createHash('sha256').update(catalog).digest('hex').slice(0, 16);
+  }
+  return CARD_CATALOG_VERSION;
+};
+
 export const isCarCardDef = (cardDef: ICardDefinition): cardDef is ICarCard => cardDef.type === 'car';
 export const isActionCardDef = (cardDef: ICardDefinition): cardDef is IActionCard => cardDef.type === 'action';
 // Meglévő segédfüggvények
@@ -459,8 +332,56 @@ interface GameInitConfig {
     MAX_CARS_IN_DECK: number;
     MAX_ACTIONS_IN_DECK: number;
   };
+  draw: {
+    CARDS_PER_ROUND: number;
+    RECIPIENT: DrawRecipient;
+    RESHUFFLE_DISCARD_PILE: boolean;
+    DECK_OUT_RULE: DeckOutRule;
+  };
+  hand: {
+    MAX_HAND_SIZE: number;
+  };
+  metrics: {
+    PLAYABLE: string[]; // A metrika-regiszter azonosítói (a JSON-ban ellenőrizetlen szöveg)
+  };
+  reaction: {
+    WINDOW_SECONDS: number;
+  };
+  match: {
+    FORMAT: MatchFormat;
+  };
 }
 
+// Fallback defaults
+const DEFAULT_GAME_INIT_CONFIG: GameInitConfig = {
+  initialHand: {
+    NR_OF_ACTION_CARDS: 1,
+    NR_OF_CAR_CARDS: 2,
+  },
+  deck: {
+    MAX_CARS_IN_DECK: 20,
+    MAX_ACTIONS_IN_DECK: 5,
+  },
+  draw: {
+    CARDS_PER_ROUND: 1,
+    RECIPIENT: 'loser',
+    RESHUFFLE_DISCARD_PILE: true,
+    DECK_OUT_RULE: 'highest_score',
+  },
+  hand: {
+    MAX_HAND_SIZE: 10,
+  },
+  metrics: {
+    PLAYABLE: [...CORE_METRICS],
+  },
+  reaction: {
+    WINDOW_SECONDS: 10,
+  },
+  match: {
+    FORMAT: { type: 'standard' },
+  },
+};
+
 export const getGameInitConfig = (): GameInitConfig => {
   try {
     // Try to load from JSON file (server-side)
@@ -476,9 +397,18 @@ export const getGameInitConfig = (): GameInitConfig => {
     
     if (fs.existsSync(filePath)) {
       const configData = fs.readFileSync(filePath, 'utf-8');
-      const config = JSON.parse(configData) as GameInitConfig;
+      const config = JSON.parse(configData) as Partial<GameInitConfig>;
       console.log('[GameEngine] Loaded gameInit.json:', config);
-      return config;
+      // A hiányzó szekciókat (pl. régebbi config fájl) az alapértelmezésekkel töltjük ki
+      return {
+        initialHand: { ...DEFAULT_GAME_INIT_CONFIG.initialHand, ...config.initialHand },
+        deck: { ...DEFAULT_GAME_INIT_CONFIG.deck, ...config.deck },
+        draw: { ...DEFAULT_GAME_INIT_CONFIG.draw, ...config.draw },
+        hand: { ...DEFAULT_GAME_INIT_CONFIG.hand, ...config.hand },
+        metrics: { ...DEFAULT_GAME_INIT_CONFIG.metrics, ...config.metrics },
+        reaction: { ...DEFAULT_GAME_INIT_CONFIG.reaction, ...config.reaction },
+        match: { ...DEFAULT_GAME_INIT_CONFIG.match, ...config.match },
+      };
     } else {
       console.warn('[GameEngine] gameInit.json not found at', filePath, 'or', altConfigPath, '- using defaults');
     }
@@ -486,21 +416,78 @@ export const getGameInitConfig = (): GameInitConfig => {
     console.warn('[GameEngine] Failed to load gameInit.json, using defaults:', error);
   }
   
-  // Fallback defaults
+  return DEFAULT_GAME_INIT_CONFIG;
+};
+
+// Az ismeretlen metrikákat kihagyjuk; ha egy sem marad, az alap metrikákkal játszunk.
+const getPlayableMetrics = (configured: string[]): MetricType[] => {
+  const unknown = configured.filter(metric => !isKnownMetric(metric));
+  if (unknown.length > 0) {
+    console.warn(`[GameEngine] Unknown metric(s) in gameInit.json ignored: ${unknown.join(', ')}`);
+  }
+  const playable = configured.filter(isKnownMetric);
+  return playable.length > 0 ? playable : [...CORE_METRICS];
+};
+
+// A config fájl formátumát a játékállapotban tárolt szabályokra képezi le.
+export const getGameRulesFromConfig = (config: GameInitConfig): IGameRules => ({
+  cardsDrawnPerRound: config.draw.CARDS_PER_ROUND,
+  drawRecipient: config.draw.RECIPIENT,
+  reshuffleDiscardPile: config.draw.RESHUFFLE_DISCARD_PILE,
+  deckOutRule: config.draw.DECK_OUT_RULE,
+  handSizeLimit: config.hand.MAX_HAND_SIZE,
+  playableMetrics: getPlayableMetrics(config.metrics.PLAYABLE),
+  reactionWindowSeconds: config.reaction.WINDOW_SECONDS,
+  matchFormat: config.match.FORMAT,
+});
+
+// A játékonkénti beállításokkal felülírt konfiguráció
+const applyGameSetup = (config: GameInitConfig, setup: IGameSetup): GameInitConfig => ({
+  ...config,
+  initialHand: {
+    NR_OF_ACTION_CARDS: setup.initialActionCards ?? config.initialHand.NR_OF_ACTION_CARDS,
+    NR_OF_CAR_CARDS: setup.initialCarCards ?? config.initialHand.NR_OF_CAR_CARDS,
+  },
+  deck: {
+    MAX_CARS_IN_DECK: setup.carsInDeck ?? config.deck.MAX_CARS_IN_DECK,
+    MAX_ACTIONS_IN_DECK: setup.actionsInDeck ?? config.deck.MAX_ACTIONS_IN_DECK,
+  },
+  hand: { MAX_HAND_SIZE: setup.handSizeLimit ?? config.hand.MAX_HAND_SIZE },
+  match: { FORMAT: setup.matchFormat ?? config.match.FORMAT },
+});
+
+/**
+ * A játék teljes beállítása: a gameInit.json értékei a megadott felülírásokkal.
+ * A kezdőesemény ezt rögzíti, így a pakli és a kezdő kéz a config későbbi változása
+ * után is ugyanúgy áll össze.
+ */
+export const resolveGameSetup = (setup: IGameSetup = {}): Required<IGameSetup> => {
+  const config = applyGameSetup(getGameInitConfig(), setup);
   return {
-    initialHand: {
-      NR_OF_ACTION_CARDS: 1,
-      NR_OF_CAR_CARDS: 2,
-    },
-    deck: {
-      MAX_CARS_IN_DECK: 20,
-      MAX_ACTIONS_IN_DECK: 5,
-    },
+    carsInDeck: config.deck.MAX_CARS_IN_DECK,
+    actionsInDeck: config.deck.MAX_ACTIONS_IN_DECK,
+    initialCarCards: config.initialHand.NR_OF_CAR_CARDS,
+    initialActionCards: config.initialHand.NR_OF_ACTION_CARDS,
+    handSizeLimit: config.hand.MAX_HAND_SIZE,
+    matchFormat: config.match.FORMAT,
   };
 };
 
 // --- 2. Játék Inicializálás (Exportált funkció) ---
-export const initializeGame = (playerIds: PlayerId[], playerNames: string[], initialSeed: number, timeLimit: number, _isInitialDrawEnabled: boolean): IGameState => {
+// A fixedIds a visszajátszáshoz kell: az eredeti játék azonosítóit használjuk újragenerálás helyett.
+// A setup a gameInit.json egyes értékeit írja felül erre a játékra.
+// A fixedRules is a visszajátszáshoz kell: a rögzített szabályok a config helyett.
+export const initializeGame = (
+  playerIds: PlayerId[],
+  playerNames: string[],
+  initialSeed: number,
+  timeControl: ITimeControl,
+  _isInitialDrawEnabled: boolean,
+  fixedIds?: { gameId: string; instanceIdsByCardId: Record<string, string> },
+  context: IEngineContext = SYSTEM_ENGINE_CONTEXT,
+  setup: IGameSetup = {},
+  fixedRules?: IGameRules
+): IGameState => {
   // acknowledge param to satisfy no-unused-params without changing API
   if (_isInitialDrawEnabled === true || _isInitialDrawEnabled === false) {
     // no-op
@@ -519,26 +506,34 @@ export const initializeGame = (playerIds: PlayerId[], playerNames: string[], ini
   // Készítsünk egy paklit a játékhoz (példa: 20 autós kártya és 5 akciókártya)
   // Ezeket véletlenszerűen választjuk ki a teljes betöltött listából
   if (allCarCardDefs.length === 0) {
-      throw new Error("Nincsenek betöltött autós kártyák a játékhoz! Ellenőrizze a CarList.json fájlt.");
+      throw new Error("Nincsenek betöltött autós kártyák a játékhoz! Ellenőrizze a CarList.csv fájlt.");
   }
   if (allActionCardDefs.length === 0) {
       console.warn("Nincsenek betöltött akciókártyák!");
   }
 
   // Load game initialization config
-  const gameConfig = getGameInitConfig();
-  const numCarsInDeck = Math.min(gameConfig.deck.MAX_CARS_IN_DECK, allCarCardDefs.length);
+  const gameConfig = applyGameSetup(getGameInitConfig(), setup);
+  const rules = fixedRules ?? getGameRulesFromConfig(gameConfig);
+
+  // Csak olyan autó kerülhet a pakliba, amelynél minden játszható metrikához van adat
+  const playableCarCardDefs = allCarCardDefs.filter(car => rules.playableMetrics.every(metric => car.metrics[metric] !== undefined));
+  if (playableCarCardDefs.length === 0) {
+      throw new Error(`Nincs olyan autós kártya, amely minden játszható metrikával rendelkezik (${rules.playableMetrics.join(', ')}).`);
+  }
+  const numCarsInDeck = Math.min(gameConfig.deck.MAX_CARS_IN_DECK, playableCarCardDefs.length);
   const numActionsInDeck = Math.min(gameConfig.deck.MAX_ACTIONS_IN_DECK, allActionCardDefs.length);
 
-  const carsForDeck = rng.shuffle(allCarCardDefs).slice(0, numCarsInDeck);
-  const actionsForDeck = rng.shuffle(allActionCardDefs).slice(0, numActionsInDeck);
+  const carsForDeck = rng.shuffle(playableCarCardDefs).slice(0, numCarsInDeck);
+  // Az akciókártyák a pakli súlyuk szerint kerülnek be (ritkább kártya kisebb eséllyel)
+  const actionsForDeck = rng.weightedSample(allActionCardDefs, numActionsInDeck, card => card.deckWeight ?? 1);
 
   const rawCardDefsForDeck: ICardDefinition[] = [...carsForDeck, ...actionsForDeck];
   
   const allGameCardInstances: ICardInstance[] = rawCardDefsForDeck.map(cardDef => {
     const baseMetrics = isCarCardDef(cardDef) ? { ...cardDef.metrics! } : undefined;
     return {
-      instanceId: uuidv4(),
+      instanceId: fixedIds?.instanceIdsByCardId[cardDef.id] ?? uuidv4(),
       cardId: cardDef.id,
       currentMetrics: baseMetrics, // Kezdetben azonos az eredetivel
       originalMetrics: baseMetrics, // Elmentjük az eredetit is
@@ -552,6 +547,7 @@ export const initializeGame = (playerIds: PlayerId[], playerNames: string[], ini
     name: playerNames[index],
     hand: [],
     score: 0,
+    timeBankMs: timeControl.initialTimeMs,
   }));
 
   // Kártya kiosztás a config alapján
@@ -597,9 +593,10 @@ export const initializeGame = (playerIds: PlayerId[], playerNames: string[], ini
   // const opponentPlayerId = playerIds.find(id => id !== startingPlayerId)!; // Biztosan létezik 2 játékosnál
 
   return {
-    gameId: uuidv4(),
+    gameId: fixedIds?.gameId ?? uuidv4(),
     players,
     currentPlayerId: startingPlayerId,
+    roundStarterId: startingPlayerId,
     gameStatus: 'playing',
     roundWinnerId: null,
     winnerId: null,
@@ -609,22 +606,314 @@ export const initializeGame = (playerIds: PlayerId[], playerNames: string[], ini
     discardPile: [],
     drawPile: shuffledDeck, 
     lastPlayedCardInstanceId: null,
-    currentTurnStartTime: Date.now(), // Szerver idő
-    turnTimeLimit: timeLimit,
-    rngSeed: initialSeed,gameLog: [`A játék elindult! ${players.find(p => p.id === startingPlayerId)!.name} kezd.`],
+    currentTurnStartTime: context.now(),
+    timeControl,
+    rules,
+    rngSeed: initialSeed,
+    rngState: rng.getState(), // A kezdeti keverések után innen folytatódik a játék RNG-folyama
+    gameLog: [{ code: 'game_started', params: { playerId: startingPlayerId }, timestamp: context.now() }],
     extraTurnPlayerId: null,
     currentPlayerPhase: 'waiting_for_initial_play', 
-    pendingMetricModifiers: { [playerIds[0]]: null, [playerIds[1]]: null }, // Inicializáljuk mindkét játékosra
+    pendingMetricModifiers: { [playerIds[0]]: [], [playerIds[1]]: [] }, // Inicializáljuk mindkét játékosra
+    pendingReaction: null,
+    revealGrants: [],
+    roundsPlayed: 0,
   };
 };
 
+// --- Akció hatások ---
+// Egy akciókártya hatásai a felsorolás sorrendjében futnak le. Az azonnali hatások
+// (idő, extra kör, lapdobatás, felfedés, lapmozgatás) a kijátszáskor érvényesülnek; a metrikára ható
+// hatások a célpont sorába kerülnek, és a következő autós kártyáján oldódnak fel.
+
+type ImmediateEffectType = 'time_mod' | 'extra_turn' | 'drop_card' | 'reveal' | 'steal' | 'swap' | 'recycle';
+type QueuedEffectType = 'metric_mod_temp' | 'metric_mod_perm' | 'override_metric';
+type ReactionEffectType = 'cancel_action' | 'reflect_action';
+
+const QUEUED_EFFECT_TYPES: QueuedEffectType[] = ['metric_mod_temp', 'metric_mod_perm', 'override_metric'];
+const REACTION_EFFECT_TYPES: ReactionEffectType[] = ['cancel_action', 'reflect_action'];
+const isQueuedEffect = (effect: IActionEffect): effect is IActionEffect & { type: QueuedEffectType } =>
+  (QUEUED_EFFECT_TYPES as string[]).includes(effect.type);
+const isReactionEffect = (effect: IActionEffect): effect is IActionEffect & { type: ReactionEffectType } =>
+  (REACTION_EFFECT_TYPES as string[]).includes(effect.type);
+
+/**
+ * A sorban álló metrika módosítók alkalmazási sorrendje: előbb az abszolút,
+ * aztán a százalékos módosítók, egymás eredményére épülve. Azonos fokozaton
+ * belül a kijátszás sorrendje dönt.
+ */
+export const MODIFIER_STACK_ORDER: NonNullable<IActionEffect['modifierType']>[] = ['absolute', 'percentage'];
+
+/**
+ * Teljesülnek-e a hatás feltételei a kártyát kijátszó játékos szemszögéből.
+ * Feltétel nélküli hatás mindig érvényesül.
+ */
+export const areEffectConditionsMet = (state: IGameState, sourcePlayerId: PlayerId, effect: IActionEffect): boolean => {
+  const player = getPlayerState(state, sourcePlayerId);
+  const opponent = getOpponentPlayerState(state, sourcePlayerId);
+  return (effect.conditions ?? []).every(condition => {
+    switch (condition.type) {
+      case 'score_behind':
+        return player.score < opponent.score;
+      case 'score_ahead':
+        return player.score > opponent.score;
+      case 'selected_metric':
+        return state.selectedMetricForRound !== null && condition.metrics.includes(state.selectedMetricForRound);
+    }
+  });
+};
+
+type ImmediateEffectHandler = (state: IGameState, player: IPlayerState, opponent: IPlayerState, effect: IActionEffect, cardDef: IActionCard, payload: IPlayCardPayload, context: IEngineContext) => void;
+
+// Véletlenszerűen kivesz legfeljebb count lapot a kézből (a játék RNG-folyamából)
+const takeRandomCards = (state: IGameState, hand: ICardInstance[], count: number): ICardInstance[] => {
+  const takenIds = new Set(drawFromGameRng(state, rng => rng.shuffle(hand)).slice(0, count).map(card => card.instanceId));
+  const taken = hand.filter(card => takenIds.has(card.instanceId));
+  hand.splice(0, hand.length, ...hand.filter(card => !takenIds.has(card.instanceId)));
+  return taken;
+};
+
+const IMMEDIATE_EFFECT_HANDLERS: Record<ImmediateEffectType, ImmediateEffectHandler> = {
+  // Csak a kijátszó játékos időbankját növeli (az érték másodpercben van megadva)
+  time_mod: (state, player, _opponent, effect, cardDef, _payload, context) => {
+    player.timeBankMs += (effect.value ?? 0) * 1000;
+    logEvent(state, context, 'time_added', { playerId: player.id, cardId: cardDef.id, value: effect.value ?? 0 });
+  },
+  extra_turn: (state, player, _opponent, _effect, cardDef, _payload, context) => {
+    state.extraTurnPlayerId = player.id;
+    logEvent(state, context, 'action_played', { playerId: player.id, cardId: cardDef.id });
+  },
+  drop_card: (state, player, opponent, _effect, cardDef, _payload, context) => {
+    if (opponent.hand.length > 0) {
+      const [droppedCard] = takeRandomCards(state, opponent.hand, 1);
+      state.discardPile.push(droppedCard);
+      logEvent(state, context, 'card_dropped', { playerId: player.id, cardId: cardDef.id });
+    } else {
+      logEvent(state, context, 'no_opponent_cards', { playerId: player.id, cardId: cardDef.id });
+    }
+  },
+  reveal: (state, player, opponent, effect, cardDef, _payload, context) => {
+    // A naplóba csak a lapok száma kerül, a felfedett kártyákat csak a jogosult játékos kapja meg (getClientGameState)
+    let revealedCards: ICardInstance[];
+    if (effect.revealSource === 'draw_pile') {
+      revealedCards = state.drawPile.slice(0, effect.value);
+      logEvent(state, context, 'draw_pile_revealed', { playerId: player.id, cardId: cardDef.id, count: revealedCards.length });
+    } else {
+      revealedCards = effect.value === undefined ? opponent.hand : drawFromGameRng(state, rng => rng.shuffle(opponent.hand)).slice(0, effect.value);
+      logEvent(state, context, 'opponent_hand_revealed', { playerId: player.id, cardId: cardDef.id, count: revealedCards.length });
+    }
+    if (revealedCards.length > 0) {
+      state.revealGrants.push({
+        playerId: player.id,
+        source: effect.revealSource!,
+        cardInstanceIds: revealedCards.map(card => card.instanceId),
+        roundsRemaining: effect.durationRounds ?? 1,
+      });
+    }
+  },
+  steal: (state, player, opponent, effect, cardDef, _payload, context) => {
+    const stolenCards = takeRandomCards(state, opponent.hand, effect.value ?? 1);
+    if (stolenCards.length === 0) {
+      logEvent(state, context, 'no_opponent_cards', { playerId: player.id, cardId: cardDef.id });
+      return;
+    }
+    player.hand.push(...stolenCards);
+    logEvent(state, context, 'cards_stolen', { playerId: player.id, cardId: cardDef.id, count: stolenCards.length });
+  },
+  swap: (state, player, opponent, _effect, cardDef, payload, context) => {
+    if (player.hand.length === 0 || opponent.hand.length === 0) {
+      logEvent(state, context, 'nothing_to_swap', { playerId: player.id, cardId: cardDef.id });
+      return;
+    }
+    // A választott lap; ha nincs (vagy visszafordított hatásnál nem ennek a játékosnak a lapja), véletlenszerű
+    const chosenIndex = player.hand.findIndex(card => card.instanceId === payload.swapCardInstanceId);
+    const [givenCard] = chosenIndex !== -1 ? player.hand.splice(chosenIndex, 1) : takeRandomCards(state, player.hand, 1);
+    const [receivedCard] = takeRandomCards(state, opponent.hand, 1);
+    player.hand.push(receivedCard);
+    opponent.hand.push(givenCard);
+    logEvent(state, context, 'cards_swapped', { playerId: player.id, cardId: cardDef.id });
+  },
+  recycle: (state, player, _opponent, _effect, cardDef, payload, context) => {
+    if (state.discardPile.length === 0) {
+      logEvent(state, context, 'discard_pile_empty', { playerId: player.id, cardId: cardDef.id });
+      return;
+    }
+    const chosenIndex = state.discardPile.findIndex(card => card.instanceId === payload.recycleCardInstanceId);
+    const [recycledCard] = state.discardPile.splice(chosenIndex !== -1 ? chosenIndex : state.discardPile.length - 1, 1);
+    player.hand.push(recycledCard);
+    // A dobópakli nyilvános, ezért a visszavett lap a naplóba kerülhet
+    logEvent(state, context, 'card_recycled', { playerId: player.id, cardId: cardDef.id, targetCardId: recycledCard.cardId });
+  },
+};
+
+// Az akciókártya összes hatását végrehajtja, illetve sorba állítja (helyben módosítja az állapotot).
+// A reakció hatásokat a resolveReaction kezeli.
+const applyActionCardEffects = (state: IGameState, player: IPlayerState, opponent: IPlayerState, cardInstance: ICardInstance, cardDef: IActionCard, payload: IPlayCardPayload, context: IEngineContext): void => {
+  cardDef.actionEffects.forEach(effect => {
+    if (isReactionEffect(effect)) return;
+    if (isQueuedEffect(effect)) {
+      const targetId = effect.target === 'opponent' ? opponent.id : player.id;
+      state.pendingMetricModifiers[targetId].push({
+        sourcePlayerId: player.id,
+        actionCardInstanceId: cardInstance.instanceId,
+        actionCardId: cardDef.id,
+        effect,
+      });
+      logEvent(state, context, 'effect_queued', { playerId: player.id, targetPlayerId: targetId, effectType: effect.type });
+      return;
+    }
+    if (!areEffectConditionsMet(state, player.id, effect)) {
+      logEvent(state, context, 'effect_condition_not_met', { cardId: cardDef.id, effectType: effect.type });
+      return;
+    }
+    IMMEDIATE_EFFECT_HANDLERS[effect.type as ImmediateEffectType](state, player, opponent, effect, cardDef, payload, context);
+  });
+};
+
+// Egész metrikák (pl. HP) egészre, a tört metrikák (pl. gyorsulási idő) két tizedesre kerekítve
+const roundMetricValue = (originalValue: number, value: number): number =>
+  Number.isInteger(originalValue) ? Math.round(value) : Math.round(value * 100) / 100;
+
+// A játékos sorában álló metrika felülírásokat hajtja végre (a kör metrikája előtt)
+const applyPendingMetricOverrides = (state: IGameState, player: IPlayerState, selectedMetric: MetricType | undefined, context: IEngineContext): void => {
+  state.pendingMetricModifiers[player.id]
+    .filter(modifier => modifier.effect.type === 'override_metric')
+    .forEach(modifier => {
+      if (!selectedMetric || !areEffectConditionsMet(state, modifier.sourcePlayerId, modifier.effect)) {
+        logEvent(state, context, 'effect_condition_not_met', { cardId: modifier.actionCardId, effectType: 'override_metric' });
+        return;
+      }
+      state.selectedMetricForRound = selectedMetric;
+      logEvent(state, context, 'metric_overridden', { playerId: player.id, cardId: modifier.actionCardId, metric: selectedMetric });
+    });
+};
+
+// A játékos sorában álló metrika módosítókat alkalmazza az autójára a MODIFIER_STACK_ORDER szerint, majd üríti a sort
+const applyPendingMetricModifiers = (state: IGameState, player: IPlayerState, carCard: ICardInstance, context: IEngineContext): void => {
+  const carDef = getCarCardDefinition(carCard);
+  if (!carCard.currentMetrics) {
+    carCard.currentMetrics = { ...carDef.metrics };
+  }
+  const currentMetrics = carCard.currentMetrics;
+
+  const metricModifiers = state.pendingMetricModifiers[player.id]
+    .filter(modifier => modifier.effect.type === 'metric_mod_temp' || modifier.effect.type === 'metric_mod_perm')
+    .sort((a, b) => MODIFIER_STACK_ORDER.indexOf(a.effect.modifierType!) - MODIFIER_STACK_ORDER.indexOf(b.effect.modifierType!)); // A sort stabil: azonos fokozaton a kijátszás sorrendje marad
+
+  metricModifiers.forEach(({ effect, sourcePlayerId, actionCardId }) => {
+    if (!areEffectConditionsMet(state, sourcePlayerId, effect)) {
+      logEvent(state, context, 'effect_condition_not_met', { cardId: actionCardId, effectType: effect.type });
+      return;
+    }
+
+    const metricToModify = effect.targetMetric!;
+    const originalValue = carCard.originalMetrics?.[metricToModify] ?? carDef.metrics[metricToModify] ?? 0;
+    const currentValue = currentMetrics[metricToModify] ?? originalValue;
+    const modifiedValue = effect.modifierType === 'percentage'
+      ? currentValue * (1 + (effect.value ?? 0) / 100)
+      : currentValue + (effect.value ?? 0);
+    currentMetrics[metricToModify] = roundMetricValue(originalValue, modifiedValue);
+
+    if (effect.type === 'metric_mod_perm') {
+      carCard.isModifiedPermanently = true;
+    }
+    logEvent(state, context, 'modifier_applied', { cardId: actionCardId, targetCardId: carDef.id, metric: metricToModify });
+  });
+
+  state.pendingMetricModifiers[player.id] = []; // Minden sorban álló hatás feldolgozva
+};
+
+// --- Reakcióablak ---
+// Ha az ellenfélnek van kijátszható reakciókártyája, az akciókártya hatásai várnak:
+// az ellenfél a reakcióidőn belül semlegesítheti vagy visszafordíthatja, illetve
+// lemondhat a reakcióról (passReaction). Reakciókártya nélkül az ablak meg sem nyílik,
+// így a megszokott játékmenet nem lassul.
+
+// Reakciókártya: legalább egy hatása reakció (ezek csak a reakcióablakban játszhatók ki)
+export const isReactionCard = (cardDef: IActionCard): boolean => cardDef.actionEffects.some(isReactionEffect);
+
+// A reakciókártya reakció hatásainak feltételei teljesülnek-e a reagáló játékos szemszögéből
+const areReactionConditionsMet = (state: IGameState, playerId: PlayerId, cardDef: IActionCard): boolean =>
+  cardDef.actionEffects.filter(isReactionEffect).every(effect => areEffectConditionsMet(state, playerId, effect));
+
+const canReact = (state: IGameState, playerId: PlayerId): boolean =>
+  getPlayerState(state, playerId).hand.some(card => {
+    const cardDef = getCardDefinition(card.cardId);
+    return !!cardDef && isActionCardDef(cardDef) && isReactionCard(cardDef) && areReactionConditionsMet(state, playerId, cardDef);
+  });
+
+const openReactionWindow = (state: IGameState, actor: IPlayerState, reactor: IPlayerState, actionCard: ICardInstance, actionCardDef: IActionCard, payload: IPlayCardPayload, context: IEngineContext): void => {
+  state.pendingReaction = { actingPlayerId: actor.id, reactingPlayerId: reactor.id, actionCardInstanceId: actionCard.instanceId, payload };
+  state.currentPlayerId = reactor.id;
+  state.currentPlayerPhase = 'reaction_window';
+  state.currentTurnStartTime = context.now();
+  logEvent(state, context, 'reaction_window_opened', { playerId: actor.id, cardId: actionCardDef.id, targetPlayerId: reactor.id });
+};
+
+// Lezárja az ablakot: az akciót kijátszó játékos folytatja a körét egy autós kártyával
+const closeReactionWindow = (state: IGameState, context: IEngineContext): void => {
+  state.currentPlayerId = state.pendingReaction!.actingPlayerId;
+  state.currentPlayerPhase = 'waiting_for_car_card_after_action';
+  state.currentTurnStartTime = context.now();
+  state.pendingReaction = null;
+};
+
+// A várakozó akciókártya (az asztalon, az akciót kijátszó játékosnál)
+const getPendingReactionActionCard = (state: IGameState): { instance: ICardInstance; cardDef: IActionCard } => {
+  const instance = state.activeActionCardsOnBoard[state.pendingReaction!.actingPlayerId];
+  if (!instance || instance.instanceId !== state.pendingReaction!.actionCardInstanceId) {
+    throw new Error('Inconsistent state: the action card of the open reaction window is not on the board.');
+  }
+  return { instance, cardDef: getActionCardDefinition(instance) };
+};
+
+// A reakciókártya kijátszása: semlegesítés vagy visszafordítás, majd a kártya további hatásai
+const resolveReaction = (state: IGameState, reactor: IPlayerState, actor: IPlayerState, reactionCard: ICardInstance, reactionCardDef: IActionCard, payload: IPlayCardPayload, context: IEngineContext): void => {
+  const { instance: actionCard, cardDef: actionCardDef } = getPendingReactionActionCard(state);
+  // A reakciókártya azonnal a dobópakliba kerül, így a reagáló játékos a saját körében még kijátszhat akciókártyát
+  state.discardPile.push(reactionCard);
+
+  const reactionEffect = reactionCardDef.actionEffects.find(isReactionEffect)!;
+  if (reactionEffect.type === 'cancel_action') {
+    logEvent(state, context, 'action_cancelled', { playerId: reactor.id, cardId: reactionCardDef.id, targetCardId: actionCardDef.id });
+  } else {
+    logEvent(state, context, 'action_reflected', { playerId: reactor.id, cardId: reactionCardDef.id, targetCardId: actionCardDef.id });
+    applyActionCardEffects(state, reactor, actor, actionCard, actionCardDef, state.pendingReaction!.payload, context);
+  }
+  applyActionCardEffects(state, reactor, actor, reactionCard, reactionCardDef, payload, context);
+  closeReactionWindow(state, context);
+};
+
+/**
+ * A reagálni jogosult játékos lemond a reakcióról (vagy lejárt a reakcióideje):
+ * a várakozó akciókártya hatásai érvényesülnek, és a kijátszója folytatja a körét.
+ */
+export const passReaction = (state: IGameState, playerId: PlayerId, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): PerformPlayResult => {
+  if (state.currentPlayerPhase !== 'reaction_window' || !state.pendingReaction) {
+    return { success: false, message: 'Most nincs mire reagálni.' };
+  }
+  if (state.pendingReaction.reactingPlayerId !== playerId) {
+    return { success: false, message: 'Nem te reagálhatsz erre a kártyára.' };
+  }
+
+  const newState: IGameState = JSON.parse(JSON.stringify(state));
+  const reactor = getPlayerState(newState, playerId);
+  const actor = getPlayerState(newState, newState.pendingReaction!.actingPlayerId);
+  const { instance: actionCard, cardDef: actionCardDef } = getPendingReactionActionCard(newState);
+
+  logEvent(newState, context, 'reaction_passed', { playerId: reactor.id });
+  applyActionCardEffects(newState, actor, reactor, actionCard, actionCardDef, newState.pendingReaction!.payload, context);
+  closeReactionWindow(newState, context);
+  return { success: true, newState };
+};
+
 // --- 3. Validáció (Exportált, a kliens oldali pre-validációhoz is) ---
 
 export const isValidPlay = (
     state: IGameState,
     playerId: PlayerId,
     cardInstanceId: string,
-    payload?: { selectedMetric?: MetricType; targetPlayerId?: PlayerId; }
+    payload?: IPlayCardPayload
 ): { isValid: boolean; message?: string } => {
     const player = getPlayerState(state, playerId);
     const cardInstance = player.hand.find(c => c.instanceId === cardInstanceId);
@@ -633,7 +922,14 @@ export const isValidPlay = (
     const cardDef = getCardDefinition(cardInstance.cardId)!;
 
     // Fázis ellenőrzés
-    if (isActionCardDef(cardDef)) {
+    if (isActionCardDef(cardDef) && isReactionCard(cardDef)) {
+        if (state.currentPlayerPhase !== 'reaction_window' || state.pendingReaction?.reactingPlayerId !== playerId) {
+            return { isValid: false, message: "Reakciókártyát csak az ellenfél akciókártyájára válaszul játszhatsz ki." };
+        }
+        if (!areReactionConditionsMet(state, playerId, cardDef)) {
+            return { isValid: false, message: "A reakciókártya feltétele nem teljesül." };
+        }
+    } else if (isActionCardDef(cardDef)) {
         if (state.currentPlayerPhase !== 'waiting_for_initial_play') {
             return { isValid: false, message: "Akciókártyát csak a köröd legelején játszhatsz ki." };
         }
@@ -647,19 +943,34 @@ export const isValidPlay = (
         }
     }
 
-    // Specifikus 'override_metric' validáció
-    const pendingModifier = state.pendingMetricModifiers[playerId];
-    if (pendingModifier && pendingModifier.effect.type === 'override_metric') {
-        if (!payload?.selectedMetric || !pendingModifier.effect.availableMetrics || !(payload.selectedMetric in pendingModifier.effect.availableMetrics)) {
+    // Csak a játékban engedélyezett metrika választható
+    if (payload?.selectedMetric !== undefined && !state.rules.playableMetrics.includes(payload.selectedMetric)) {
+        return { isValid: false, message: "Ez a metrika ebben a játékban nem választható." };
+    }
+
+    // Specifikus 'override_metric' validáció (csak az életbe lépő felülírásokra)
+    const pendingOverrides = state.pendingMetricModifiers[playerId].filter(modifier =>
+        modifier.effect.type === 'override_metric' && areEffectConditionsMet(state, modifier.sourcePlayerId, modifier.effect));
+    for (const { effect } of pendingOverrides) {
+        if (!payload?.selectedMetric || !effect.availableMetrics || !(payload.selectedMetric in effect.availableMetrics)) {
             return { isValid: false, message: "Érvénytelen metrikát választottál a felülíráshoz." };
         }
     }
 
+    // A lapmozgató hatások választásai: a cserére szánt lap a saját kézben, a visszavett lap a dobópakliban legyen
+    if (payload?.swapCardInstanceId !== undefined &&
+        (payload.swapCardInstanceId === cardInstanceId || !player.hand.some(c => c.instanceId === payload.swapCardInstanceId))) {
+        return { isValid: false, message: "A cserére szánt lap nincs a kezedben." };
+    }
+    if (payload?.recycleCardInstanceId !== undefined && !state.discardPile.some(c => c.instanceId === payload.recycleCardInstanceId)) {
+        return { isValid: false, message: "A választott lap nincs a dobópakliban." };
+    }
+
     return { isValid: true };
 };
 
 // Define a type for the return value
-type PerformPlayResult =
+export type PerformPlayResult =
   | { success: true; newState: IGameState }
   | { success: false; message: string };
 
@@ -667,7 +978,9 @@ export const performPlay = (
   state: IGameState,
   playerId: PlayerId,
   cardInstanceId: string,
-  payload: { selectedMetric?: MetricType; targetPlayerId?: PlayerId; }
+  payload: IPlayCardPayload,
+  context: IEngineContext = SYSTEM_ENGINE_CONTEXT,
+  automatic = false
 ): PerformPlayResult => {
   const validation = isValidPlay(state, playerId, cardInstanceId, payload);
   if (!validation.isValid) {
@@ -678,6 +991,7 @@ export const performPlay = (
   let newState = JSON.parse(JSON.stringify(state)); // Mély másolás az immutabilitásért
   const player = getPlayerState(newState, playerId);
   const opponent = getOpponentPlayerState(newState, playerId);
+  chargeMoveTime(newState, player, context, automatic);
   const cardIndex = player.hand.findIndex(c => c.instanceId === cardInstanceId);
   
   // Extra safety check (shouldn't happen if validation passes, but good practice)
@@ -692,51 +1006,17 @@ export const performPlay = (
 
   // --- LOGIKA ---
   // 1. Akciókártya kijátszása
-  if (isActionCardDef(cardDef)) {
-    const effect = cardDef.actionEffect;
-    let targetId = playerId;
-    if (effect.target === 'opponent') {
-        targetId = opponent.id;
-    }
+  if (isActionCardDef(cardDef) && isReactionCard(cardDef)) {
+    resolveReaction(newState, player, opponent, cardInstance, cardDef, payload, context);
+  }
+  else if (isActionCardDef(cardDef)) {
     newState.activeActionCardsOnBoard[playerId] = cardInstance;
-
-    switch (effect.type) {
-      case 'time_mod':
-        newState.turnTimeLimit += effect.value;
-        newState.gameLog.push(`${player.name} kijátszotta a(z) '${cardDef.name}' kártyát, +${effect.value}s.`);
-        break;
-      case 'extra_turn':
-        newState.extraTurnPlayerId = playerId;
-        newState.gameLog.push(`${player.name} kijátszotta a(z) '${cardDef.name}' kártyát.`);
-        break;
-      case 'drop_card':
-        if (opponent.hand.length > 0) {
-          // Használjuk a játék RNG-jét a determinisztikus működésért
-          const rngForDrop = new DeterministicRNG(newState.rngSeed + opponent.hand.length); // A seed-et kicsit módosítjuk, hogy ne mindig ugyanazt adja
-          const cardIndexToDrop = Math.floor(rngForDrop.next() * opponent.hand.length);
-      
-          // A splice metódussal vesszük ki a véletlenszerű lapot
-          const [droppedCard] = opponent.hand.splice(cardIndexToDrop, 1);
-      
-          newState.discardPile.push(droppedCard);
-          newState.gameLog.push(`${player.name} a(z) '${cardDef.name}' kártyával eldobatta az ellenfél egy véletlenszerű lapját.`);
-        } else {
-          newState.gameLog.push(`${player.name} a(z) '${cardDef.name}' kártyát játszotta ki, de az ellenfélnek nem volt lapja.`);
-        }
-        break;
-      case 'metric_mod_temp':
-      case 'metric_mod_perm':
-      case 'override_metric':
-        
-        newState.pendingMetricModifiers[targetId] = {
-          sourcePlayerId: playerId,
-          actionCardInstanceId: cardInstance.instanceId,
-          effect: effect,
-      };
-      newState.gameLog.push(`${player.name} előkészített egy ${effect.type} hatást ${targetId === opponent.id ? 'az ellenfélre.' : 'magára.'}`);
-      break;
+    if (canReact(newState, opponent.id)) {
+      openReactionWindow(newState, player, opponent, cardInstance, cardDef, payload, context);
+    } else {
+      applyActionCardEffects(newState, player, opponent, cardInstance, cardDef, payload, context);
+      newState.currentPlayerPhase = 'waiting_for_car_card_after_action';
     }
-    newState.currentPlayerPhase = 'waiting_for_car_card_after_action';
   } 
   // 2. Autós kártya kijátszása
   else if (isCarCardDef(cardDef)) {
@@ -744,50 +1024,9 @@ export const performPlay = (
     newState.carCardsOnBoard[playerId] = carCardOnBoard;
     newState.lastPlayedCardInstanceId = cardInstanceId;
 
-    // I. FÜGGŐBEN LÉVŐ AKCIÓKÁRTYA ALKALMAZÁSA
-    const pendingModifier = newState.pendingMetricModifiers[playerId];
-    if (pendingModifier) {
-      const actionCardInstanceOnBoard = newState.activeActionCardsOnBoard[pendingModifier.sourcePlayerId];
-      if (!actionCardInstanceOnBoard) {
-        throw new Error(`Inconsistent state: Pending modifier exists for player ${playerId}, but no action card is on the board.`);
-      }
-
-      const actionCardPlayedDef = getCardDefinition(actionCardInstanceOnBoard.cardId)!;
-      if (!actionCardPlayedDef) {
-           throw new Error(`Card definition not found for action card: ${actionCardInstanceOnBoard.cardId}`);
-      }
-      
-      const effect = pendingModifier.effect;
-
-      if (!carCardOnBoard.currentMetrics) {
-        carCardOnBoard.currentMetrics = { ...(getCarCardDefinition(carCardOnBoard).metrics) };
-      }
+    // I. FÜGGŐBEN LÉVŐ METRIKA FELÜLÍRÁSOK
+    applyPendingMetricOverrides(newState, player, payload.selectedMetric, context);
 
-      if ((effect.type === 'metric_mod_temp' || effect.type === 'metric_mod_perm')) {
-        const metricToModify: MetricType = effect.targetMetric;
-        const originalValue = carCardOnBoard.originalMetrics![metricToModify];
-        let modifiedValue = originalValue;
-        if (effect.modifierType === 'percentage') {
-          modifiedValue = originalValue * (1 + effect.value / 100);
-        } else { // absolute
-          modifiedValue = originalValue + effect.value;
-        }
-        carCardOnBoard.currentMetrics![metricToModify] = Math.round(modifiedValue);
-        
-        if (effect.type === 'metric_mod_perm') {
-          carCardOnBoard.isModifiedPermanently = true;
-        }
-        newState.gameLog.push(`A(z) '${actionCardPlayedDef.name}' hatása érvényesült a(z) '${getCarCardDefinition(carCardOnBoard).name}' kártyán (${effect.targetMetric} módosítva).`);
-      }
-      
-      else if (effect.type === 'override_metric' && payload.selectedMetric) {
-        newState.selectedMetricForRound = payload.selectedMetric;
-        newState.gameLog.push(`${player.name} a(z) '${actionCardPlayedDef.name}' kártyával megváltoztatta a metrikát erre: ${payload.selectedMetric}.`);
-      }
-      
-      newState.pendingMetricModifiers[playerId] = null; // Módosító alkalmazva, töröljük a függőben lévők közül
-    }
-    
     // II. A KÖR METRIKÁJÁNAK BEÁLLÍTÁSA (HA MÉG NINCS)
     if (newState.selectedMetricForRound === null) {
       if (!payload.selectedMetric) {
@@ -795,8 +1034,11 @@ export const performPlay = (
         return { success: false, message: "Metrika választás kötelező, ha még nincs kiválasztva a körre." };
       }
       newState.selectedMetricForRound = payload.selectedMetric;
-      newState.gameLog.push(`${player.name} a(z) '${cardDef.name}' kijátszásával a kör metrikáját erre állította: ${payload.selectedMetric}.`);
+      logEvent(newState, context, 'metric_selected', { playerId: player.id, cardId: cardDef.id, metric: payload.selectedMetric });
     }
+
+    // III. FÜGGŐBEN LÉVŐ METRIKA MÓDOSÍTÓK (a kör metrikája már ismert, a feltételek erre is hivatkozhatnak)
+    applyPendingMetricModifiers(newState, player, carCardOnBoard, context);
     
     newState.currentPlayerPhase = 'turn_ended';
   }
@@ -806,13 +1048,13 @@ export const performPlay = (
   // hanem előbb küldünk egy köztes állapotot: 'both_cards_on_board'.
   if (newState.carCardsOnBoard[player.id] && newState.carCardsOnBoard[opponent.id]) {
     newState.currentPlayerPhase = 'both_cards_on_board';
-    newState.gameLog.push(`Mindkét játékos kijátszotta a kártyáját!`);
+    logEvent(newState, context, 'both_cards_played');
     // A szerver felelős ezután egy rövid késleltetés után meghívni a resolveRound-ot,
     // majd az új állapotot kiküldeni a klienseknek (pl. 'round_resolved' fázissal).
   }
 
   // A `checkGameEndConditions` hívás maradjon itt, mert a kör lezárása is okozhatja a játék végét
-  newState = checkGameEndConditions(newState);
+  newState = checkGameEndConditions(newState, context);
 
   // Ha a játék nem ért véget, és a körnek sincs vége, a másik játékos jön
   // DE ha csak az első játékos tett le kártyát, akkor most jön a másik.
@@ -821,9 +1063,9 @@ export const performPlay = (
     // Ha az ellenfél még nem rakott le autót, akkor az ő köre következik
     if (!newState.carCardsOnBoard[opponentId]) {
       newState.currentPlayerId = opponentId;
-      newState.currentTurnStartTime = Date.now(); 
+      newState.currentTurnStartTime = context.now();
       newState.currentPlayerPhase = 'waiting_for_initial_play'; // Az ellenfél is kezdhet akciókártyával.
-      newState.gameLog.push(`--> Most ${getOpponentPlayerState(newState, playerId).name} köre.`);
+      logEvent(newState, context, 'turn_started', { playerId: opponentId });
     }
   }
 
@@ -834,8 +1076,156 @@ export const performPlay = (
 };
 
 
+// --- Dobás a 'must_discard' fázisban (Exportált, a kliens oldali pre-validációhoz is) ---
+
+export const isValidDiscard = (
+    state: IGameState,
+    playerId: PlayerId,
+    cardInstanceId: string
+): { isValid: boolean; message?: string } => {
+    if (state.currentPlayerPhase !== 'must_discard') {
+        return { isValid: false, message: "Most nem kell lapot dobnod." };
+    }
+    if (state.currentPlayerId !== playerId) {
+        return { isValid: false, message: "Nem neked kell lapot dobnod." };
+    }
+    const player = getPlayerState(state, playerId);
+    if (!player.hand.some(c => c.instanceId === cardInstanceId)) {
+        return { isValid: false, message: "Kártya nem található a kezedben." };
+    }
+    return { isValid: true };
+};
+
+export const performDiscard = (
+  state: IGameState,
+  playerId: PlayerId,
+  cardInstanceId: string,
+  context: IEngineContext = SYSTEM_ENGINE_CONTEXT,
+  automatic = false
+): PerformPlayResult => {
+  const validation = isValidDiscard(state, playerId, cardInstanceId);
+  if (!validation.isValid) {
+    return { success: false, message: validation.message ?? 'Érvénytelen dobás' };
+  }
+
+  const newState: IGameState = JSON.parse(JSON.stringify(state));
+  const player = getPlayerState(newState, playerId);
+  chargeMoveTime(newState, player, context, automatic);
+  const cardIndex = player.hand.findIndex(c => c.instanceId === cardInstanceId);
+  const [discardedCard] = player.hand.splice(cardIndex, 1);
+  newState.discardPile.push(discardedCard);
+  logEvent(newState, context, 'card_discarded', { playerId: player.id, cardId: discardedCard.cardId });
+
+  // Amíg valakinél a limitnél több lap van, a dobási fázis folytatódik
+  if (!requireDiscardIfOverHandLimit(newState, playerId, context)) {
+    newState.currentPlayerPhase = 'round_resolved';
+  }
+
+  return { success: true, newState };
+};
+
+// --- 4. Húzási fázis a kör lezárása után ---
+
+// Egy lapot húz a húzópakli tetejéről. Ha a pakli üres és a szabályok engedik,
+// előbb a dobópaklit keveri vissza a húzópakliba (determinisztikusan, a játék RNG-folyamából).
+// A kapott állapotot helyben módosítja, ezért csak már lemásolt állapoton hívható.
+const drawCardFromPile = (state: IGameState, context: IEngineContext): ICardInstance | null => {
+  if (state.drawPile.length === 0 && state.rules.reshuffleDiscardPile && state.discardPile.length > 0) {
+    state.drawPile = drawFromGameRng(state, rng => rng.shuffle(state.discardPile));
+    state.discardPile = [];
+    logEvent(state, context, 'discard_pile_reshuffled', { count: state.drawPile.length });
+  }
+  return state.drawPile.shift() ?? null;
+};
+
+// A szabályok szerinti játékosok húznak a kör után.
+// Visszaadja azoknak a játékosoknak az ID-jét, akik nem tudtak annyi lapot húzni, amennyit kellett volna.
+const drawCardsForRound = (state: IGameState, roundWinnerId: PlayerId | null, context: IEngineContext): PlayerId[] => {
+  const { cardsDrawnPerRound, drawRecipient } = state.rules;
+  if (cardsDrawnPerRound <= 0) return [];
+
+  let recipients: IPlayerState[] = [];
+  if (roundWinnerId) {
+    const winner = getPlayerState(state, roundWinnerId);
+    const loser = getOpponentPlayerState(state, roundWinnerId);
+    if (drawRecipient === 'winner') recipients = [winner];
+    else if (drawRecipient === 'loser') recipients = [loser];
+    else recipients = [winner, loser];
+  } else if (drawRecipient === 'both') {
+    // Döntetlen körben csak akkor húz bárki, ha mindkét játékos húz
+    recipients = state.players;
+  }
+
+  const deckedOutPlayerIds: PlayerId[] = [];
+  recipients.forEach(player => {
+    let drawnCount = 0;
+    while (drawnCount < cardsDrawnPerRound) {
+      const card = drawCardFromPile(state, context);
+      if (!card) break;
+      player.hand.push(card);
+      drawnCount++;
+    }
+    if (drawnCount > 0) {
+      logEvent(state, context, 'cards_drawn', { playerId: player.id, count: drawnCount });
+    }
+    if (drawnCount < cardsDrawnPerRound) {
+      deckedOutPlayerIds.push(player.id);
+    }
+  });
+
+  return deckedOutPlayerIds;
+};
+
+// Deck-out: a húzópakli (és a visszakeverhető dobópakli) kifogyott, valaki nem tudott húzni.
+const applyDeckOutRule = (state: IGameState, deckedOutPlayerIds: PlayerId[], context: IEngineContext): void => {
+  if (state.rules.deckOutRule === 'continue') {
+    logEvent(state, context, 'deck_out', { playerIds: deckedOutPlayerIds });
+    return;
+  }
+
+  let winnerId: PlayerId | null = null;
+  if (state.rules.deckOutRule === 'decked_player_loses' && deckedOutPlayerIds.length === 1) {
+    winnerId = getOpponentPlayerState(state, deckedOutPlayerIds[0]).id;
+  } else {
+    // 'highest_score', illetve ha mindkét játékos kifogyott: a pontszám dönt
+    const [player1, player2] = state.players;
+    if (player1.score > player2.score) winnerId = player1.id;
+    else if (player2.score > player1.score) winnerId = player2.id;
+  }
+
+  if (winnerId) {
+    state.winnerId = winnerId;
+    state.gameStatus = 'win';
+    logEvent(state, context, 'game_won', { playerId: winnerId, reason: 'deck_out', playerIds: deckedOutPlayerIds });
+  } else {
+    state.gameStatus = 'tie';
+    logEvent(state, context, 'game_tied', { reason: 'deck_out', playerIds: deckedOutPlayerIds });
+  }
+};
+
+// Ha valakinek a kezében a limitnél több lap van, 'must_discard' fázisba lépünk, és ő jön.
+// A kör nyertesét ellenőrizzük először, mert jellemzően nála gyűlnek a lapok.
+// Visszaadja, hogy kell-e dobni.
+const requireDiscardIfOverHandLimit = (state: IGameState, preferredPlayerId: PlayerId | null, context: IEngineContext): boolean => {
+  const candidates = preferredPlayerId
+    ? [getPlayerState(state, preferredPlayerId), getOpponentPlayerState(state, preferredPlayerId)]
+    : state.players;
+  const playerOverLimit = candidates.find(p => p.hand.length > state.rules.handSizeLimit);
+  if (!playerOverLimit) return false;
+
+  state.currentPlayerPhase = 'must_discard';
+  state.currentPlayerId = playerOverLimit.id;
+  state.currentTurnStartTime = context.now(); // A dobás ideje a dobásra kötelezett játékos óráját terheli
+  logEvent(state, context, 'hand_limit_exceeded', {
+    playerId: playerOverLimit.id,
+    count: playerOverLimit.hand.length,
+    value: playerOverLimit.hand.length - state.rules.handSizeLimit,
+  });
+  return true;
+};
+
 // --- 5. Kör lezárása és győztes meghatározása (Exportált funkció) ---
-export const resolveRound = (state: IGameState): IGameState => {
+export const resolveRound = (state: IGameState, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): IGameState => {
   let newState: IGameState = JSON.parse(JSON.stringify(state));
   const player1 = newState.players[0];
   const player2 = newState.players[1];
@@ -853,21 +1243,13 @@ export const resolveRound = (state: IGameState): IGameState => {
   const player2MetricValue = (player2Card.currentMetrics || getCarCardDefinition(player2Card).metrics)[metric];
 
   let roundWinnerId: PlayerId | null = null;
-  let message: string;
-
-  // Súly és Gyorsulás metrika fordított logika: alacsonyabb a jobb
-  if (metric === 'weight' || metric === 'accel') {
-    if (player1MetricValue < player2MetricValue) {
-      roundWinnerId = player1.id;
-    } else if (player2MetricValue < player1MetricValue) {
-      roundWinnerId = player2.id;
-    }
-  } else { // Minden más metrika: magasabb a jobb
-    if (player1MetricValue > player2MetricValue) {
-      roundWinnerId = player1.id;
-    } else if (player2MetricValue > player1MetricValue) {
-      roundWinnerId = player2.id;
-    }
+
+  // A metrika iránya (pl. tömegnél, gyorsulásnál, fékútnál az alacsonyabb a jobb) a regiszterből jön
+  const comparison = compareMetricValues(metric, player1MetricValue ?? 0, player2MetricValue ?? 0);
+  if (comparison > 0) {
+    roundWinnerId = player1.id;
+  } else if (comparison < 0) {
+    roundWinnerId = player2.id;
   }
 
   const winner = roundWinnerId ? getPlayerState(newState, roundWinnerId) : null;
@@ -880,39 +1262,57 @@ export const resolveRound = (state: IGameState): IGameState => {
     const loserMetricValue = (loserCard.currentMetrics || getCarCardDefinition(loserCard).metrics)[metric];
     winner.hand.push(winnerCard, loserCard);
     winner.score += 1; 
-    message = `${winner.name} nyerte a kört! (${metric}: ${winnerMetricValue} vs ${loserMetricValue})`;
-    // ÚJ RÉSZ: Kézméret limit ellenőrzése
-    if (winner.hand.length > 10) {
-      newState.currentPlayerPhase = 'must_discard';
-      newState.currentPlayerId = winner.id; // A nyertesnek kell dobnia
-      newState.gameLog.push(`${winner.name} kezében túl sok lap van (${winner.hand.length}), dobnia kell egyet!`);
-  }
+    logEvent(newState, context, 'round_won', { playerId: winner.id, metric, value: winnerMetricValue, opponentValue: loserMetricValue });
   } else {
     // DÖNTETLEN ESETÉN EZ A HELYES LOGIKA:
     player1.hand.push(player1Card);
     player2.hand.push(player2Card);
-    message = `Döntetlen a körben! (${metric}: ${player1MetricValue} vs ${player2MetricValue}). A kártyák visszakerültek a játékosokhoz.`;
+    logEvent(newState, context, 'round_tied', { metric, value: player1MetricValue, opponentValue: player2MetricValue });
   }
 
   newState.roundWinnerId = roundWinnerId;
-  newState.gameLog.push(message);
+  newState.roundsPlayed += 1;
   
   // Tisztítás az asztalról és az aktív akciókártyákról
+  // A kijátszott akciókártyák a dobópakliba kerülnek, ahonnan később újrakeverhetők
+  Object.values(newState.activeActionCardsOnBoard).forEach(card => {
+    if (card) newState.discardPile.push(card);
+  });
   newState.carCardsOnBoard = { [player1.id]: null, [player2.id]: null };
-  newState.activeActionCardsOnBoard = { [player1.id]: null, [player2.id]: null }; // Akciókártyák elvésznek a kör végén
+  newState.activeActionCardsOnBoard = { [player1.id]: null, [player2.id]: null };
+
+  // A betekintések egy körrel rövidülnek, a lejártak törlődnek
+  newState.revealGrants = newState.revealGrants
+    .map(grant => ({ ...grant, roundsRemaining: grant.roundsRemaining - 1 }))
+    .filter(grant => grant.roundsRemaining > 0);
+
+  // Húzás a kör után; ha valaki nem tudott húzni, a deck-out szabály dönt
+  const deckedOutPlayerIds = drawCardsForRound(newState, roundWinnerId, context);
+  if (deckedOutPlayerIds.length > 0) {
+    applyDeckOutRule(newState, deckedOutPlayerIds, context);
+  }
+
+  // Kézméret limit ellenőrzése (a húzás után, hogy a húzott lapok is számítsanak)
+  if (newState.gameStatus === 'playing') {
+    requireDiscardIfOverHandLimit(newState, roundWinnerId, context);
+  }
   
   // Játék vége ellenőrzés
-  newState = checkGameEndConditions(newState);
+  newState = checkGameEndConditions(newState, context);
   
   return newState;
 };
 
-export const advanceTurn = (state: IGameState, roundWinnerId: PlayerId | null): IGameState => {
+export const advanceTurn = (state: IGameState, roundWinnerId: PlayerId | null, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): IGameState => {
   const newState: IGameState = JSON.parse(JSON.stringify(state));
   
   if (newState.gameStatus !== 'playing') {
     return newState; 
   }
+  // A kötelező dobást nem lehet átugrani
+  if (newState.currentPlayerPhase === 'must_discard') {
+    return newState;
+  }
   
   newState.roundWinnerId = null; 
   newState.selectedMetricForRound = null;
@@ -922,28 +1322,52 @@ export const advanceTurn = (state: IGameState, roundWinnerId: PlayerId | null):
   // A győztes meghatározásának logikája helyes.
   if (newState.extraTurnPlayerId) {
     nextPlayerId = newState.extraTurnPlayerId;
-    newState.gameLog.push(`--> ${getPlayerState(newState, nextPlayerId).name} extra köre következik.`);
+    logEvent(newState, context, 'extra_turn_started', { playerId: nextPlayerId });
     newState.extraTurnPlayerId = null;
   } else if (roundWinnerId) {
     nextPlayerId = roundWinnerId;
   } else {
-    // Döntetlen esetén a kezdési jog nem változik.
-    // A currentPlayerId a kör végén a második játékos, így az ellenfele volt a kezdő.
-    nextPlayerId = getOpponentPlayerState(newState, newState.currentPlayerId).id;
+    // Döntetlen esetén a kezdési jog nem változik. A currentPlayerId-ből nem következtethetünk rá,
+    // mert egy kötelező dobás a dobó játékosra állítja.
+    nextPlayerId = newState.roundStarterId;
   }
 
   newState.currentPlayerId = nextPlayerId;
-  newState.currentTurnStartTime = Date.now(); 
+  newState.roundStarterId = nextPlayerId;
+  newState.currentTurnStartTime = context.now();
   newState.currentPlayerPhase = 'waiting_for_initial_play';
 
-  newState.gameLog.push(`--> Most ${getPlayerState(newState, newState.currentPlayerId).name} köre.`);
+  logEvent(newState, context, 'turn_started', { playerId: newState.currentPlayerId });
 
   return newState;
 };
 
 // --- 7. Játék Vége Feltételek (Exportált funkció) ---
-export const checkGameEndConditions = (state: IGameState): IGameState => {
+// A játékformátum szerinti eredmény (nyert körök célja vagy körlimit), ha az már eldőlt; különben null.
+// Csak két kör között dönt, amikor az asztal üres.
+const getMatchFormatResult = (state: IGameState): { winnerId: PlayerId | null; reason: GameEndReason } | null => {
+    const format = state.rules.matchFormat;
+    const boardIsEmpty = Object.values(state.carCardsOnBoard).every(v => v === null);
+    if (!boardIsEmpty) return null;
+
+    if (format.type === 'first_to') {
+        const winner = state.players.find(p => p.score >= format.roundWins);
+        return winner ? { winnerId: winner.id, reason: 'round_target_reached' } : null;
+    }
+    if (format.type === 'fixed_rounds' && state.roundsPlayed >= format.rounds) {
+        const [player1, player2] = state.players;
+        let winnerId: PlayerId | null = null;
+        if (player1.score > player2.score) winnerId = player1.id;
+        else if (player2.score > player1.score) winnerId = player2.id;
+        return { winnerId, reason: 'round_limit_reached' };
+    }
+    return null;
+};
+
+export const checkGameEndConditions = (state: IGameState, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): IGameState => {
     const newState: IGameState = JSON.parse(JSON.stringify(state));
+    // Ha a játék már véget ért (pl. deck-out vagy időtúllépés), nem írjuk felül az eredményt
+    if (newState.gameStatus !== 'playing') return newState;
 
     // Annak a játékosnak a kártyáit ellenőrizzük, aki épp jönne.
     const currentPlayerState = getPlayerState(newState, newState.currentPlayerId);
@@ -956,34 +1380,42 @@ export const checkGameEndConditions = (state: IGameState): IGameState => {
 
     let winnerId: PlayerId | null = null;
     let status: GameStatus = 'playing';
-    let reason: string | null = null;
+    let reason: GameEndReason | null = null;
+
+    // 0. A játékformátum előbb dönt, mint a lapok elfogyása
+    const formatResult = getMatchFormatResult(newState);
+    if (formatResult) {
+        winnerId = formatResult.winnerId;
+        status = winnerId ? 'win' : 'tie';
+        reason = formatResult.reason;
+    }
 
     // 1. Ha valaki kifogyott az autós kártyákból a kezéből, amikor rá kerülne a sor.
     // Ez a feltétel azt ellenőrzi, hogy ha valakinek nincs autós kártyája a kezében, amikor
     // a kör elején (vagy akció után) kellene autós kártyát kijátszania.
-    if (currentPlayerCarCardsInHand.length === 0 && 
+    if (!reason && currentPlayerCarCardsInHand.length === 0 && 
         (newState.currentPlayerPhase === 'waiting_for_initial_play' || newState.currentPlayerPhase === 'waiting_for_car_card_after_action')) {
         winnerId = opponentPlayerState.id;
         status = 'win'; // Az ellenfél szemszögéből
-        reason = `${currentPlayerState.name} kifogyott az autós kártyákból!`;
+        reason = 'out_of_car_cards';
     }
     
     // 2. Ha minden lap elfogyott a húzópakliból ÉS mindkét játékos kezéből (végső döntetlen)
     // FONTOS: ezt csak akkor ellenőrizzük, ha az asztal üres (nem vagyunk épp összehasonlítás alatt)
     // és még nem találtunk győztest.
     const boardIsEmpty = Object.values(newState.carCardsOnBoard).every(v => v === null);
-    if (!winnerId && boardIsEmpty && currentPlayerState.hand.length === 0 && opponentPlayerState.hand.length === 0 && newState.drawPile.length === 0) {
+    if (!reason && boardIsEmpty && currentPlayerState.hand.length === 0 && opponentPlayerState.hand.length === 0 && newState.drawPile.length === 0) {
         status = 'tie';
-        reason = "Döntetlen - minden lap elfogyott!";
+        reason = 'all_cards_played';
     }
 
     if (winnerId) {
         newState.winnerId = winnerId;
         newState.gameStatus = status; 
-        newState.gameLog.push(`Játék vége! ${getPlayerState(newState, winnerId).name} nyert. Ok: ${reason}`);
+        logEvent(newState, context, 'game_won', { playerId: winnerId, reason: reason!, targetPlayerId: getOpponentPlayerState(newState, winnerId).id });
     } else if (status === 'tie') { 
         newState.gameStatus = status;
-        newState.gameLog.push(`Játék vége! ${reason}`);
+        logEvent(newState, context, 'game_tied', { reason: reason! });
     }
 
     return newState;
@@ -992,34 +1424,50 @@ export const checkGameEndConditions = (state: IGameState): IGameState => {
 
 // --- 8. Server-oldali időtúllépés kezelése (Exportált funkció) ---
 // Ezt a szerver hívja meg, ha egy játékos ideje lejárt.
-export const endGameByTimeout = (state: IGameState, timedOutPlayerId: PlayerId): IGameState => {
+export const endGameByTimeout = (state: IGameState, timedOutPlayerId: PlayerId, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): IGameState => {
     const newState: IGameState = JSON.parse(JSON.stringify(state));
     if (newState.gameStatus !== 'playing') return newState;
 
     const opponentOfTimedOut = getOpponentPlayerState(newState, timedOutPlayerId);
+    getPlayerState(newState, timedOutPlayerId).timeBankMs = 0; // Az órája lejárt
 
     // Ha az időtúllépő játékos épp autós kártyát kellene, hogy tegyen
     // Itt a logikát egyszerűsítjük: ha valaki időtúllép, az ellenfél nyer, függetlenül a lapoktól.
     // Ezt azért tesszük, mert az időtúllépés büntetés, nem pedig egy kártyaszámlálás.
     newState.winnerId = opponentOfTimedOut.id;
     newState.gameStatus = 'win';
-    
-    const reason = `${getPlayerState(newState, timedOutPlayerId).name} ideje lejárt! ${opponentOfTimedOut.name} nyert.`;
-    
-    newState.gameLog.push(reason);
+    logEvent(newState, context, 'game_won', { playerId: opponentOfTimedOut.id, reason: 'timeout', targetPlayerId: timedOutPlayerId });
+
+    return newState;
+};
+
+// --- 9. Feladás (Exportált funkció) ---
+// Lecsatlakozás vagy elakadt bot esetén a szerver ezzel zárja le a játékot.
+export const endGameByForfeit = (state: IGameState, forfeitingPlayerId: PlayerId, reason: ForfeitReason, context: IEngineContext = SYSTEM_ENGINE_CONTEXT): IGameState => {
+    const newState: IGameState = JSON.parse(JSON.stringify(state));
+    if (newState.gameStatus !== 'playing') return newState;
+
+    const opponent = getOpponentPlayerState(newState, forfeitingPlayerId);
+    newState.winnerId = opponent.id;
+    newState.gameStatus = 'win';
+    logEvent(newState, context, 'game_won', { playerId: opponent.id, reason: 'forfeit', targetPlayerId: forfeitingPlayerId, forfeitReason: reason });
 
     return newState;
 };
 
 // --- Kliensnek küldendő állapot szűrése ---
-// Ezt a funkciót a szerver hívja meg, mielőtt elküldi a GameState-et a kliensnek.
-export const getClientGameState = (serverState: IGameState, requestingPlayerId: PlayerId): IGameState => {
+// A néző (viewerId = null) egyik kezet sem látja, és a játékosok betekintéseit sem kapja meg.
+const filterGameStateForViewer = (serverState: IGameState, viewerId: PlayerId | null): IGameState => {
   const clientState: IGameState = JSON.parse(JSON.stringify(serverState));
 
-  // Szűrjük az ellenfél kezét
+  // Az információs kártyák által felfedett példányok (csak a saját, még érvényes betekintések)
+  clientState.revealGrants = clientState.revealGrants.filter(grant => grant.playerId === viewerId);
+  const revealedInstanceIds = new Set(clientState.revealGrants.flatMap(grant => grant.cardInstanceIds));
+
+  // Szűrjük a többi játékos (nézőnél mindkét játékos) kezét
   clientState.players.forEach(player => {
-    if (player.id !== requestingPlayerId) {
-      player.hand = player.hand.map(card => ({
+    if (player.id !== viewerId) {
+      player.hand = player.hand.map(card => revealedInstanceIds.has(card.instanceId) ? card : ({
           instanceId: card.instanceId, // Az instanceId megtartása fontos az interakcióhoz
           cardId: 'HIDDEN_CARD_BACK', // Kliens oldalon erre az ID-re rendereljük a kártya hátoldalát
           // A többi mező elhagyása, hogy ne szivárogjon ki információ
@@ -1027,14 +1475,24 @@ export const getClientGameState = (serverState: IGameState, requestingPlayerId:
     }
   });
 
-  // A húzópakli tartalmát nem küldjük el, csak a méretét
-  const clientStateWithMeta = clientState as IGameState & { drawPileSize: number; rngSeed?: unknown };
+  // A húzópakli tartalmát nem küldjük el, csak a méretét és a felfedett lapokat (a pakli sorrendjében)
+  const clientStateWithMeta = clientState as IGameState & { drawPileSize: number };
   clientStateWithMeta.drawPileSize = clientState.drawPile.length; // Kliensnek küldjük a méretet
-  clientState.drawPile = []; // Ürítjük a tömböt, mielőtt elküldjük
+  clientState.drawPile = clientState.drawPile.filter(card => revealedInstanceIds.has(card.instanceId));
 
-  // RNG seed-et ne küldjük el a kliensnek, az szerver oldali titok
-  const clientStateNoSeed = clientState as unknown as { rngSeed?: unknown };
-  clientStateNoSeed.rngSeed = undefined;
+  // Az RNG seedjét és aktuális állapotát ne küldjük el a kliensnek: ezekből a következő
+  // véletlen döntések (keverés, lapdobatás, lopás) előre kiszámíthatók lennének
+  const clientStateNoRng = clientState as unknown as { rngSeed?: unknown; rngState?: unknown };
+  clientStateNoRng.rngSeed = undefined;
+  clientStateNoRng.rngState = undefined;
 
   return clientState;
-};
\ No newline at end of file
+};
+
+// Ezt a funkciót a szerver hívja meg, mielőtt elküldi a GameState-et a kliensnek.
+export const getClientGameState = (serverState: IGameState, requestingPlayerId: PlayerId): IGameState =>
+  filterGameStateForViewer(serverState, requestingPlayerId);
+
+// A nézőknek küldött állapot: mindkét játékos keze rejtett
+export const getSpectatorGameState = (serverState: IGameState): IGameState =>
+  filterGameStateForViewer(serverState, null);
\ No newline at end of file
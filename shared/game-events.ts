@@ -0,0 +1,152 @@
+// ======================================================================
+// shared/game-events.ts
+// Eseményalapú réteg a játékmotor fölött: minden állapotváltozás egy típusos
+// eseményből származik (applyEvent), így a játék a kezdőseedből és az
+// eseménynaplóból bitre pontosan újraépíthető (replay). A kezdőesemény a
+// szabályokat és a kártyakatalógus lenyomatát is rögzíti, így a config
+// későbbi változása nem hat a visszajátszásra, a katalógusé pedig kiderül.
+// ======================================================================
+
+import { GameEvent, IGameSetup, IGameState, IGameStartedEvent } from './interfaces';
+import {
+  initializeGame,
+  performPlay,
+  performDiscard,
+  resolveRound,
+  advanceTurn,
+  endGameByTimeout,
+  endGameByForfeit,
+  passReaction,
+  checkGameEndConditions,
+  createFixedTimeContext,
+  getCardCatalogVersion,
+  resolveGameSetup,
+  IEngineContext,
+  PerformPlayResult,
+} from './game-engine';
+
+export type ApplyEventResult = PerformPlayResult;
+
+const fail = (message: string): ApplyEventResult => ({ success: false, message });
+const succeed = (newState: IGameState): ApplyEventResult => ({ success: true, newState });
+
+/**
+ * Összeállítja a játék kezdőeseményét egy már inicializált állapotból.
+ * A szerver ezt rögzíti az initializeGame hívás után, hogy a kiosztott
+ * azonosítók visszajátszáskor is ugyanazok legyenek. A setup a játék indításakor
+ * megadott beállítás; a configgal kiegészítve rögzítjük, hogy a pakli és a kezdő kéz
+ * visszajátszáskor is ugyanúgy álljon össze.
+ */
+export const createGameStartedEvent = (state: IGameState, setup: IGameSetup = {}): IGameStartedEvent => {
+  const allInstances = [
+    ...state.players.flatMap(p => p.hand),
+    ...state.drawPile,
+    ...state.discardPile,
+  ];
+  const instanceIdsByCardId: Record<string, string> = {};
+  allInstances.forEach(card => { instanceIdsByCardId[card.cardId] = card.instanceId; });
+
+  return {
+    type: 'GameStarted',
+    timestamp: state.currentTurnStartTime,
+    gameId: state.gameId,
+    playerIds: state.players.map(p => p.id),
+    playerNames: state.players.map(p => p.name),
+    timeControl: state.timeControl,
+    setup: resolveGameSetup(setup),
+    rules: state.rules,
+    catalogVersion: getCardCatalogVersion(),
+    instanceIdsByCardId,
+  };
+};
+
+// Az esemény végrehajtása a motoron (a játék végének ellenőrzése nélkül)
+const executeEvent = (state: IGameState, event: GameEvent, context: IEngineContext): ApplyEventResult => {
+  switch (event.type) {
+    case 'GameStarted':
+      return fail('A játék már elindult.');
+    case 'PlayCard':
+      return performPlay(state, event.playerId, event.cardInstanceId, event.payload, context, event.automatic ?? false);
+    case 'Discard':
+      return performDiscard(state, event.playerId, event.cardInstanceId, context, event.automatic ?? false);
+    case 'ResolveRound': {
+      if (state.currentPlayerPhase !== 'both_cards_on_board') {
+        return fail('A kör csak akkor zárható le, ha mindkét autós kártya az asztalon van.');
+      }
+      const resolved = resolveRound(state, context);
+      // A kör lezárása után 'round_resolved' következik, kivéve ha valakinek dobnia kell
+      if (resolved.currentPlayerPhase !== 'must_discard') {
+        resolved.currentPlayerPhase = 'round_resolved';
+      }
+      return succeed(resolved);
+    }
+    case 'AdvanceTurn':
+      if (state.currentPlayerPhase !== 'round_resolved') {
+        return fail('Körváltás csak a kör lezárása után lehetséges.');
+      }
+      return succeed(advanceTurn(state, state.roundWinnerId, context));
+    case 'Timeout':
+      return succeed(endGameByTimeout(state, event.playerId, context));
+    case 'Forfeit':
+      return succeed(endGameByForfeit(state, event.playerId, event.reason, context));
+    case 'PassReaction':
+      return passReaction(state, event.playerId, context);
+    case 'Resume': {
+      const newState: IGameState = JSON.parse(JSON.stringify(state));
+      newState.currentTurnStartTime += event.pausedForMs;
+      return succeed(newState);
+    }
+  }
+};
+
+/**
+ * Tiszta reducer: egy eseményt alkalmaz az állapotra, és visszaadja az új állapotot.
+ * Érvénytelen esemény esetén (pl. szabálytalan lépés) hibát ad vissza, az állapot nem változik.
+ */
+export const applyEvent = (state: IGameState, event: GameEvent): ApplyEventResult => {
+  // A motor az esemény rögzített időpontját kapja, így élőben és visszajátszáskor is ugyanaz az állapot jön ki
+  const context = createFixedTimeContext(event.timestamp);
+  const result = executeEvent(state, event, context);
+
+  // A folytatás csak az órát tolja el, a játék végét nem érinti
+  if (!result.success || event.type === 'Resume') return result;
+  // Minden lépés után ellenőrizzük a játék végét, ahogy a szerver is teszi
+  return succeed(checkGameEndConditions(result.newState, context));
+};
+
+/**
+ * Újraépíti a játékot a kezdőseedből és az eseménynaplóból.
+ * Az első eseménynek a 'GameStarted'-nek kell lennie. Ha a naplót más
+ * kártyakatalógussal rögzítették, a visszajátszás nem lenne pontos, ezért hibát dob.
+ */
+export const replay = (initialSeed: number, events: GameEvent[]): IGameState => {
+  const [startEvent, ...rest] = events;
+  if (!startEvent || startEvent.type !== 'GameStarted') {
+    throw new Error('Replay error: the event log must start with a GameStarted event.');
+  }
+  if (startEvent.catalogVersion && startEvent.catalogVersion !== getCardCatalogVersion()) {
+    throw new Error(`Replay error: the log was recorded with card catalog ${startEvent.catalogVersion}, but ${getCardCatalogVersion()} is loaded.`);
+  }
+
+  let state = initializeGame(
+    startEvent.playerIds,
+    startEvent.playerNames,
+    initialSeed,
+    startEvent.timeControl,
+    true,
+    { gameId: startEvent.gameId, instanceIdsByCardId: startEvent.instanceIdsByCardId },
+    createFixedTimeContext(startEvent.timestamp),
+    startEvent.setup ?? {},
+    startEvent.rules
+  );
+
+  rest.forEach((event, index) => {
+    const result = applyEvent(state, event);
+    if (!result.success) {
+      throw new Error(`Replay error at event #${index + 1} (${event.type}): ${result.message}`);
+    }
+    state = result.newState;
+  });
+
+  return state;
+};
@@ -0,0 +1,68 @@
+// ======================================================================
+// shared/game-log.ts
+// A típusos játéknapló megjelenítése: egy bejegyzésből (kód + paraméterek)
+// a kiválasztott nyelv katalógusa alapján szöveg lesz. A szerver nem küld
+// kész mondatokat, így a kliens a saját nyelvén (vagy animációként) jeleníti meg.
+// ======================================================================
+
+import { GameLogLocale, IGameLogCatalog, IGameLogEntry, IGameLogParams, IGameState, PlayerId } from './interfaces';
+import { getCardDefinition } from './game-engine';
+import { HU_GAME_LOG_CATALOG } from './locales/hu';
+import { EN_GAME_LOG_CATALOG } from './locales/en';
+
+export const GAME_LOG_CATALOGS: Record<GameLogLocale, IGameLogCatalog> = {
+  hu: HU_GAME_LOG_CATALOG,
+  en: EN_GAME_LOG_CATALOG,
+};
+
+// A bejegyzésekben csak azonosítók szerepelnek; a megjelenített neveket ez oldja fel
+export interface IGameLogNameResolver {
+  playerName: (playerId: PlayerId) => string;
+  cardName: (cardId: string) => string;
+}
+
+/**
+ * Névfeloldó egy játékállapothoz: a játékosneveket az állapotból, a kártyaneveket
+ * a betöltött kártyadefiníciókból veszi. Ismeretlen azonosító esetén magát az azonosítót adja.
+ */
+export const createGameLogNameResolver = (state: IGameState): IGameLogNameResolver => ({
+  playerName: playerId => state.players.find(p => p.id === playerId)?.name ?? playerId,
+  cardName: cardId => getCardDefinition(cardId)?.name ?? cardId,
+});
+
+// A {név} alakú helyőrzőket tölti ki; az ismeretlen helyőrző változatlan marad
+const fillTemplate = (template: string, values: Record<string, string | undefined>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+
+const templateValues = (params: IGameLogParams, catalog: IGameLogCatalog, names: IGameLogNameResolver): Record<string, string | undefined> => {
+  const optional = <T>(value: T | undefined, format: (value: T) => string): string | undefined =>
+    value === undefined ? undefined : format(value);
+  return {
+    player: optional(params.playerId, names.playerName),
+    targetPlayer: optional(params.targetPlayerId, names.playerName),
+    players: optional(params.playerIds, ids => ids.map(names.playerName).join(', ')),
+    card: optional(params.cardId, names.cardName),
+    targetCard: optional(params.targetCardId, names.cardName),
+    metric: params.metric,
+    effectType: params.effectType,
+    value: optional(params.value, String),
+    opponentValue: optional(params.opponentValue, String),
+    count: optional(params.count, String),
+    forfeitReason: optional(params.forfeitReason, reason => catalog.forfeitReasons[reason]),
+  };
+};
+
+/**
+ * Egy naplóbejegyzés szövege a megadott nyelven.
+ *
+ * @param entry A naplóbejegyzés
+ * @param locale A megjelenítés nyelve
+ * @param names A játékos- és kártyanevek feloldója (lásd createGameLogNameResolver)
+ */
+export const formatGameLogEntry = (entry: IGameLogEntry, locale: GameLogLocale, names: IGameLogNameResolver): string => {
+  const catalog = GAME_LOG_CATALOGS[locale];
+  const values = templateValues(entry.params, catalog, names);
+  // A játék végének oka saját sablon, ugyanazokkal a paraméterekkel
+  values.reason = entry.params.reason === undefined ? undefined : fillTemplate(catalog.endReasons[entry.params.reason], values);
+  return fillTemplate(catalog.messages[entry.code], values);
+};
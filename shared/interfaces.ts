@@ -1,6 +1,9 @@
 
+import type { MetricId } from './metric-registry';
+
 // --- 1. Típusdefiníciók ---
-export type MetricType = 'speed' | 'hp' | 'accel' | 'weight' | 'year'; 
+export type CoreMetricType = 'speed' | 'hp' | 'accel' | 'weight' | 'year'; // Minden autónál kötelező metrikák
+export type MetricType = MetricId; // Metrika azonosító a metrika-regiszterből (METRIC_REGISTRY)
 export type PlayerId = string; 
 export type GameStatus = 'menu' | 'playing' | 'win' | 'loss' | 'tie' | 'waiting_opponent';
 export type PlayerActionPhase = 
@@ -10,14 +13,67 @@ export type PlayerActionPhase =
   | 'turn_ended'                        // A játékos befejezte a lapok kijátszását a körben
   | 'both_cards_on_board'              // Mindkét autós kártya lent van, összehasonlítás előtt
   | 'awaiting_opponent_play'          // Várakozás az ellenfél lépésére (technikai fázis)
+  | 'reaction_window'                   // Az ellenfél akciókártyájára reakciókártyával lehet válaszolni
   | 'round_resolved'; // A kör lezárva, de még nem következik a kör váltás
 
+export type DrawRecipient = 'winner' | 'loser' | 'both'; // Ki húz a kör lezárása után
+
+export type DeckOutRule =
+  | 'continue'             // A húzás elmarad, a játék folytatódik
+  | 'highest_score'        // A játék véget ér, a több pontot szerző játékos nyer
+  | 'decked_player_loses'; // Aki nem tud húzni, elveszíti a játékot
+
+// Mikor ér véget a játék a lapok elfogyásán (és az időn, feladáson) túl
+export type MatchFormat =
+  | { type: 'standard' }                     // Csak a lapok elfogyása dönt
+  | { type: 'first_to'; roundWins: number }  // Aki elsőként megnyer roundWins kört
+  | { type: 'fixed_rounds'; rounds: number }; // rounds kör után a több pontot szerző nyer
+
+export interface IGameRules {
+  cardsDrawnPerRound: number;     // Hány lapot húz a kör után a kedvezményezett (0 = nincs húzás)
+  drawRecipient: DrawRecipient;
+  reshuffleDiscardPile: boolean;  // Üres húzópakli esetén a dobópakli visszakeverhető
+  deckOutRule: DeckOutRule;       // Mi történik, ha valaki nem tud húzni
+  handSizeLimit: number;          // Ennél több lap esetén a játékosnak dobnia kell ('must_discard')
+  playableMetrics: MetricType[];  // A körökben választható metrikák; csak az ezekkel rendelkező autók kerülnek a pakliba
+  reactionWindowSeconds: number;  // Ennyi ideje van az ellenfélnek reakciókártyát kijátszani egy akciókártyára
+  matchFormat: MatchFormat;
+}
+
+// Sakkóra: minden játékosnak saját időbankja van, ami csak a saját lépései alatt fogy
+export interface ITimeControl {
+  initialTimeMs: number; // A játék elején ennyi idővel indul mindkét játékos
+  incrementMs: number;   // Minden megtett lépés után ennyi jóváírás jár
+}
+
+// Játékonként felülírható beállítások (pl. privát szobában a házigazda választja);
+// amit nem adnak meg, az a gameInit.json szerint alakul
+export interface IGameSetup {
+  carsInDeck?: number;
+  actionsInDeck?: number;
+  initialCarCards?: number;    // Kezdő kézben lévő autós kártyák száma
+  initialActionCards?: number; // Kezdő kézben lévő akciókártyák száma
+  handSizeLimit?: number;
+  matchFormat?: MatchFormat;
+}
+
 export interface CardMetrics {
   speed: number;
   hp: number;
   accel: number;
   weight: number;
   year: number; 
+  [metric: string]: number | undefined; // További (opcionális) metrikák a regiszterből, ha az autónál van adat
+}
+
+export interface IMetricDefinition {
+  id: MetricType;
+  sourceColumn: string;   // Oszlop a CarList.csv-ben
+  displayName: string;
+  unit: string;
+  lowerIsBetter: boolean; // Pl. gyorsulási idő, tömeg, fékút
+  required: boolean;      // Kötelező metrika: enélkül az autó nem kerül a katalógusba
+  rankWeight?: number;    // Súly a kártya rangjának számításában (ha nincs megadva, nem számít bele)
 }
 
 export type ActionEffectType =
@@ -26,19 +82,38 @@ export type ActionEffectType =
   | 'metric_mod_perm'      // Permanens metrika módosító (játék végéig)
   | 'override_metric'      // Felülírja az összehasonlítás metrikáját
   | 'drop_card'            // Ellenféltől lapot dob el
-  | 'extra_turn';          // Extra kör
+  | 'extra_turn'           // Extra kör
+  | 'reveal'               // Felfedi az ellenfél néhány lapját vagy a húzópakli tetejét (csak a kijátszónak)
+  | 'steal'                // Az ellenfél véletlenszerű lapja(i) a kijátszó kezébe kerül(nek)
+  | 'swap'                 // A kijátszó egy választott lapját elcseréli az ellenfél egy véletlenszerű lapjára
+  | 'recycle'              // Egy lapot visszavesz a dobópakliból a kezébe
+  | 'cancel_action'        // Reakció: semlegesíti az ellenfél épp kijátszott akciókártyáját
+  | 'reflect_action';      // Reakció: az ellenfél akciókártyája a kijátszójára hat vissza
+
+// Egy hatás feltétele, mindig a kártyát kijátszó játékos szemszögéből értékelve
+export type IEffectCondition =
+  | { type: 'score_behind' }                          // Pontokban hátrányban van
+  | { type: 'score_ahead' }                           // Pontokban előnyben van
+  | { type: 'selected_metric'; metrics: MetricType[] }; // A kör metrikája ezek egyike
 
 // Union típus az összes lehetséges akció effektushoz
 export interface IActionEffect {
-  type: 'time_mod' | 'metric_mod_temp' | 'metric_mod_perm' | 'override_metric' | 'drop_card' | 'extra_turn';
+  type: ActionEffectType;
   target: 'self' | 'opponent' | 'game'; // A 'game' a globális hatásokra, mint az időmódosítás
   value?: number;
   targetMetric?: MetricType;
   modifierType?: 'percentage' | 'absolute';
   availableMetrics?: CardMetrics;
   newMetric?: MetricType;
+  revealSource?: RevealSource;     // 'reveal': honnan (a value a felfedett lapok száma; az ellenfél kezénél hiányában az egész kéz)
+  durationRounds?: number;         // 'reveal': hány kör lezárásáig látható (alapértelmezés: 1)
+  conditions?: IEffectCondition[]; // Mindnek teljesülnie kell; a metrika módosítóknál az alkalmazáskor értékeljük
 }
 
+export type RevealSource = 'opponent_hand' | 'draw_pile';
+
+export type CardRarity = 'common' | 'uncommon' | 'rare' | 'epic';
+
 export interface ICardDefinition {
   id: string;             
   name: string;
@@ -51,7 +126,9 @@ export interface ICardDefinition {
   carRank?: string;
   engineType?: string;
   metrics?: CardMetrics; 
-  actionEffect?: IActionEffect; 
+  actionEffects?: IActionEffect[]; // Akciókártyák hatásai, a felsorolás sorrendjében
+  rarity?: CardRarity;    // Akciókártyák ritkasága (megjelenítés és alapértelmezett pakli súly)
+  deckWeight?: number;    // Relatív esély, hogy a kártya bekerül egy játék paklijába
 }
 
 export interface ICarCard extends ICardDefinition {
@@ -61,7 +138,7 @@ export interface ICarCard extends ICardDefinition {
 
 export interface IActionCard extends ICardDefinition {
   type: 'action';
-  actionEffect: IActionEffect;
+  actionEffects: IActionEffect[];
 }
 
 export interface ICardInstance {
@@ -80,12 +157,14 @@ export interface IPlayerState {
   name: string;
   hand: ICardInstance[]; 
   score: number; 
+  timeBankMs: number; // A hátralévő idő a legutóbbi lépés (vagy kör eleje) szerint; a futó órát a currentTurnStartTime-tól kell levonni
 }
 
 export interface IGameState {
   gameId: string;
   players: IPlayerState[];
   currentPlayerId: PlayerId;
+  roundStarterId: PlayerId; // A folyó kör kezdője; döntetlen után ő kezd újra (a currentPlayerId közben a dobásra kötelezettre válthat)
   gameStatus: GameStatus;
   roundWinnerId: PlayerId | null;
   winnerId: PlayerId | null;
@@ -100,16 +179,206 @@ export interface IGameState {
   drawPile: ICardInstance[]; 
   lastPlayedCardInstanceId: string | null; 
   currentTurnStartTime: number; 
-  turnTimeLimit: number; 
+  timeControl: ITimeControl; 
+  rules: IGameRules; // A játék indításakor rögzített szabályok (gameInit.json alapján)
   rngSeed: number; 
-  gameLog: string[]; 
+  rngState: number; // A játék RNG-folyamának aktuális állapota: minden véletlen döntés innen húz, és tovább lépteti
+  gameLog: IGameLogEntry[]; // Típusos naplóbejegyzések; a szöveget a kliens állítja elő a saját nyelvén
   extraTurnPlayerId: PlayerId | null; 
   currentPlayerPhase: PlayerActionPhase; 
-  pendingMetricModifiers: { // Függőben lévő metrika módosítók
-    [playerId: string]: { // Annak a játékosnak az ID-je, akinek a kártyájára hat majd
-      sourcePlayerId: PlayerId; // A játékos, aki kijátszotta az akciókártyát
-      actionCardInstanceId: string; // Melyik akciókártya okozza
-      effect: IActionEffect;       // Milyen hatás
-    } | null;
+  pendingMetricModifiers: { // Függőben lévő metrika módosítók sora
+    [playerId: string]: IPendingModifier[]; // Annak a játékosnak az ID-je, akinek a kártyájára hat majd
   };
+  pendingReaction: IPendingReaction | null; // Nyitott reakcióablak ('reaction_window' fázisban)
+  revealGrants: IRevealGrant[]; // Ki milyen, egyébként rejtett kártyapéldányt láthat (a kliens állapot szűréséhez)
+  roundsPlayed: number; // A lezárt körök száma (a döntetlen is számít)
+}
+
+// --- Játéknapló ---
+// Minden bejegyzés egy kódból és a hozzá tartozó paraméterekből áll; a megjelenítendő
+// szöveget a nyelvi katalógusok adják (shared/game-log.ts).
+export type GameLogCode =
+  | 'game_started'             // playerId: a kezdő játékos
+  | 'time_added'               // playerId, cardId, value: másodperc
+  | 'action_played'            // playerId, cardId
+  | 'card_dropped'             // playerId, cardId
+  | 'no_opponent_cards'        // playerId, cardId
+  | 'draw_pile_revealed'       // playerId, cardId, count
+  | 'opponent_hand_revealed'   // playerId, cardId, count
+  | 'cards_stolen'             // playerId, cardId, count
+  | 'cards_swapped'            // playerId, cardId
+  | 'nothing_to_swap'          // playerId, cardId
+  | 'card_recycled'            // playerId, cardId, targetCardId: a visszavett lap
+  | 'discard_pile_empty'       // playerId, cardId
+  | 'effect_queued'            // playerId, targetPlayerId, effectType
+  | 'effect_condition_not_met' // cardId, effectType
+  | 'metric_overridden'        // playerId, cardId, metric
+  | 'modifier_applied'         // cardId: akciókártya, targetCardId: autó, metric
+  | 'reaction_window_opened'   // playerId, cardId, targetPlayerId: aki reagálhat
+  | 'action_cancelled'         // playerId: aki reagált, cardId: reakciókártya, targetCardId: akciókártya
+  | 'action_reflected'         // playerId: aki reagált, cardId: reakciókártya, targetCardId: akciókártya
+  | 'reaction_passed'          // playerId
+  | 'metric_selected'          // playerId, cardId, metric
+  | 'both_cards_played'
+  | 'turn_started'             // playerId
+  | 'extra_turn_started'       // playerId
+  | 'card_discarded'           // playerId, cardId
+  | 'discard_pile_reshuffled'  // count
+  | 'cards_drawn'              // playerId, count
+  | 'hand_limit_exceeded'      // playerId, count: kézméret, value: eldobandó lapok
+  | 'round_won'                // playerId, metric, value, opponentValue
+  | 'round_tied'               // metric, value, opponentValue
+  | 'deck_out'                 // playerIds: akik nem tudtak húzni
+  | 'game_won'                 // playerId: a győztes, reason (+ az ok paraméterei)
+  | 'game_tied';               // reason (+ az ok paraméterei)
+
+export type GameEndReason =
+  | 'deck_out'            // playerIds
+  | 'out_of_car_cards'    // targetPlayerId
+  | 'all_cards_played'
+  | 'round_target_reached' // targetPlayerId
+  | 'round_limit_reached'
+  | 'timeout'             // targetPlayerId
+  | 'forfeit';            // targetPlayerId, forfeitReason
+
+export interface IGameLogParams {
+  playerId?: PlayerId;
+  targetPlayerId?: PlayerId;
+  playerIds?: PlayerId[];
+  cardId?: string;       // Kártya definíció azonosító (nem példány), a név a katalógusból jön
+  targetCardId?: string;
+  metric?: MetricType;
+  effectType?: ActionEffectType;
+  value?: number;
+  opponentValue?: number;
+  count?: number;
+  reason?: GameEndReason;
+  forfeitReason?: ForfeitReason;
+}
+
+export interface IGameLogEntry {
+  code: GameLogCode;
+  params: IGameLogParams;
+  timestamp: number; // A motor kontextusának órája szerint
+}
+
+export type GameLogLocale = 'hu' | 'en';
+
+// Egy nyelv üzenetei. A sablonokban a {player}, {card}, {metric} stb. helyőrzők
+// a bejegyzés paramétereiből (a nevek feloldásával) töltődnek ki.
+export interface IGameLogCatalog {
+  messages: Record<GameLogCode, string>;
+  endReasons: Record<GameEndReason, string>;       // A {reason} helyőrző szövege
+  forfeitReasons: Record<ForfeitReason, string>;   // A {forfeitReason} helyőrző szövege
+}
+
+// Egy információs kártya által adott betekintés. A kliensnek küldött állapotban
+// a jogosult játékos ezeket a kártyapéldányokat felfedve látja, bárhol legyenek.
+export interface IRevealGrant {
+  playerId: PlayerId;        // Aki láthatja
+  source: RevealSource;
+  cardInstanceIds: string[]; // A felfedett kártyapéldányok
+  roundsRemaining: number;   // Ennyi kör lezárása után jár le
+}
+
+// Egy kijátszott akciókártya, amelynek a hatásai a reakcióablak lezárásáig várnak
+export interface IPendingReaction {
+  actingPlayerId: PlayerId;     // Aki az akciókártyát kijátszotta
+  reactingPlayerId: PlayerId;   // Aki reagálhat rá
+  actionCardInstanceId: string; // A várakozó akciókártya (az asztalon)
+  payload: IPlayCardPayload;    // A kijátszáskor megadott döntések, a hatások ezekkel érvényesülnek
 }
+
+// A következő autós kártyára váró hatás. A sor a kijátszás sorrendjét őrzi,
+// az alkalmazás sorrendjét a motor határozza meg (lásd MODIFIER_STACK_ORDER).
+export interface IPendingModifier {
+  sourcePlayerId: PlayerId;     // A játékos, aki kijátszotta az akciókártyát
+  actionCardInstanceId: string; // Melyik akciókártya okozza
+  actionCardId: string;         // A kártya definíciója (a naplózáshoz, akkor is, ha a lap már nincs az asztalon)
+  effect: IActionEffect;        // Milyen hatás
+}
+
+// --- Események (eseménynapló és visszajátszás) ---
+// Minden állapotváltozás egy típusos eseményből származik; a kezdőseed és az események
+// sorozata alapján a játék bármikor bitre pontosan újraépíthető.
+
+export type ForfeitReason = 'disconnect' | 'no_valid_move';
+
+export interface IGameEventBase {
+  timestamp: number; // Szerver idő, amikor az esemény történt
+}
+
+export interface IGameStartedEvent extends IGameEventBase {
+  type: 'GameStarted';
+  gameId: string;
+  playerIds: PlayerId[];
+  playerNames: string[];
+  timeControl: ITimeControl;
+  setup?: IGameSetup; // Hiányzik a beállítások bevezetése előtt rögzített naplókban
+  rules?: IGameRules; // A játék szabályai; a régebbi naplókban hiányzik (ilyenkor a configból)
+  catalogVersion?: string; // A kártyakatalógus lenyomata (getCardCatalogVersion)
+  instanceIdsByCardId: Record<string, string>; // A kiosztott kártyapéldányok azonosítói
+}
+
+// A kártya kijátszásakor megadott döntések
+export interface IPlayCardPayload {
+  selectedMetric?: MetricType;
+  targetPlayerId?: PlayerId;
+  swapCardInstanceId?: string;    // 'swap': a saját kézből cserére szánt lap (hiányában véletlenszerű)
+  recycleCardInstanceId?: string; // 'recycle': a dobópakliból visszavett lap (hiányában a legfelső)
+}
+
+export interface IPlayCardEvent extends IGameEventBase {
+  type: 'PlayCard';
+  playerId: PlayerId;
+  cardInstanceId: string;
+  payload: IPlayCardPayload;
+  automatic?: boolean; // Időtúllépés miatt a szerver lépett a játékos helyett
+}
+
+export interface IDiscardEvent extends IGameEventBase {
+  type: 'Discard';
+  playerId: PlayerId;
+  cardInstanceId: string;
+  automatic?: boolean; // Időtúllépés miatt a szerver dobott a játékos helyett
+}
+
+export interface IResolveRoundEvent extends IGameEventBase {
+  type: 'ResolveRound';
+}
+
+export interface IAdvanceTurnEvent extends IGameEventBase {
+  type: 'AdvanceTurn';
+}
+
+export interface ITimeoutEvent extends IGameEventBase {
+  type: 'Timeout';
+  playerId: PlayerId;
+}
+
+export interface IForfeitEvent extends IGameEventBase {
+  type: 'Forfeit';
+  playerId: PlayerId;
+  reason: ForfeitReason;
+}
+
+export interface IPassReactionEvent extends IGameEventBase {
+  type: 'PassReaction';
+  playerId: PlayerId; // A reagálni jogosult játékos (lemondott, vagy lejárt az ideje)
+}
+
+export interface IResumeEvent extends IGameEventBase {
+  type: 'Resume';
+  pausedForMs: number; // A szünet hossza, ennyivel tolódik a kör kezdete
+}
+
+export type GameEvent =
+  | IGameStartedEvent
+  | IPlayCardEvent
+  | IDiscardEvent
+  | IResolveRoundEvent
+  | IAdvanceTurnEvent
+  | ITimeoutEvent
+  | IForfeitEvent
+  | IPassReactionEvent
+  | IResumeEvent;
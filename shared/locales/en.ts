@@ -0,0 +1,57 @@
+// ======================================================================
+// shared/locales/en.ts
+// A játéknapló angol üzenetei (lásd shared/game-log.ts).
+// ======================================================================
+
+import { IGameLogCatalog } from '../interfaces';
+
+export const EN_GAME_LOG_CATALOG: IGameLogCatalog = {
+  messages: {
+    game_started: 'The game has started! {player} goes first.',
+    time_added: "{player} played '{card}', +{value}s.",
+    action_played: "{player} played '{card}'.",
+    card_dropped: "{player} used '{card}' to make the opponent discard a random card.",
+    no_opponent_cards: "{player} played '{card}', but the opponent had no cards.",
+    draw_pile_revealed: "{player} used '{card}' to look at the top {count} card(s) of the draw pile.",
+    opponent_hand_revealed: "{player} used '{card}' to look at {count} of the opponent's cards.",
+    cards_stolen: "{player} used '{card}' to take {count} card(s) from the opponent.",
+    cards_swapped: "{player} used '{card}' to swap one of their cards for one of the opponent's.",
+    nothing_to_swap: "{player} played '{card}', but there was nothing to swap.",
+    card_recycled: "{player} used '{card}' to take back from the discard pile: {targetCard}.",
+    discard_pile_empty: "{player} played '{card}', but the discard pile is empty.",
+    effect_queued: '{player} prepared a {effectType} effect targeting {targetPlayer}.',
+    effect_condition_not_met: "The {effectType} effect of '{card}' did not apply because its condition was not met.",
+    metric_overridden: "{player} used '{card}' to change the metric to: {metric}.",
+    modifier_applied: "The effect of '{card}' was applied to '{targetCard}' ({metric} modified).",
+    reaction_window_opened: "{player} played '{card}'. {targetPlayer} may react.",
+    action_cancelled: "{player} used '{card}' to cancel '{targetCard}'.",
+    action_reflected: "{player} used '{card}' to reflect '{targetCard}'.",
+    reaction_passed: '{player} did not react.',
+    metric_selected: "{player} played '{card}' and set the round metric to: {metric}.",
+    both_cards_played: 'Both players have played their cards!',
+    turn_started: "--> It is {player}'s turn.",
+    extra_turn_started: '--> {player} takes an extra turn.',
+    card_discarded: "{player} discarded '{card}'.",
+    discard_pile_reshuffled: 'The discard pile ({count} cards) was shuffled back into the draw pile.',
+    cards_drawn: '{player} drew {count} card(s).',
+    hand_limit_exceeded: '{player} holds too many cards ({count}) and must discard {value}!',
+    round_won: '{player} won the round! ({metric}: {value} vs {opponentValue})',
+    round_tied: 'The round is a tie! ({metric}: {value} vs {opponentValue}). The cards were returned to their players.',
+    deck_out: 'The deck ran out, {players} could not draw!',
+    game_won: 'Game over! {player} won. Reason: {reason}',
+    game_tied: 'Game over! Draw - {reason}',
+  },
+  endReasons: {
+    deck_out: 'The deck ran out, {players} could not draw!',
+    out_of_car_cards: '{targetPlayer} ran out of car cards!',
+    all_cards_played: 'all cards have been played!',
+    round_target_reached: 'the required number of round wins was reached!',
+    round_limit_reached: 'the round limit was reached!',
+    timeout: "{targetPlayer}'s time ran out!",
+    forfeit: '{targetPlayer} {forfeitReason}.',
+  },
+  forfeitReasons: {
+    disconnect: 'did not reconnect in time',
+    no_valid_move: 'could not make a legal move',
+  },
+};
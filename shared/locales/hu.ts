@@ -0,0 +1,57 @@
+// ======================================================================
+// shared/locales/hu.ts
+// A játéknapló magyar üzenetei (lásd shared/game-log.ts).
+// ======================================================================
+
+import { IGameLogCatalog } from '../interfaces';
+
+export const HU_GAME_LOG_CATALOG: IGameLogCatalog = {
+  messages: {
+    game_started: 'A játék elindult! {player} kezd.',
+    time_added: "{player} kijátszotta a(z) '{card}' kártyát, +{value}s.",
+    action_played: "{player} kijátszotta a(z) '{card}' kártyát.",
+    card_dropped: "{player} a(z) '{card}' kártyával eldobatta az ellenfél egy véletlenszerű lapját.",
+    no_opponent_cards: "{player} a(z) '{card}' kártyát játszotta ki, de az ellenfélnek nem volt lapja.",
+    draw_pile_revealed: "{player} a(z) '{card}' kártyával megnézte a húzópakli felső {count} lapját.",
+    opponent_hand_revealed: "{player} a(z) '{card}' kártyával belenézett az ellenfél {count} lapjába.",
+    cards_stolen: "{player} a(z) '{card}' kártyával elvett {count} lapot az ellenféltől.",
+    cards_swapped: "{player} a(z) '{card}' kártyával elcserélte egy lapját az ellenfél egy lapjára.",
+    nothing_to_swap: "{player} a(z) '{card}' kártyát játszotta ki, de nem volt mit cserélni.",
+    card_recycled: "{player} a(z) '{card}' kártyával visszavette a dobópakliból: {targetCard}.",
+    discard_pile_empty: "{player} a(z) '{card}' kártyát játszotta ki, de a dobópakli üres.",
+    effect_queued: '{player} előkészített egy {effectType} hatást, célpont: {targetPlayer}.',
+    effect_condition_not_met: "A(z) '{card}' {effectType} hatása nem lépett életbe, mert a feltétele nem teljesült.",
+    metric_overridden: "{player} a(z) '{card}' kártyával megváltoztatta a metrikát erre: {metric}.",
+    modifier_applied: "A(z) '{card}' hatása érvényesült a(z) '{targetCard}' kártyán ({metric} módosítva).",
+    reaction_window_opened: "{player} kijátszotta a(z) '{card}' kártyát. {targetPlayer} reagálhat rá.",
+    action_cancelled: "{player} a(z) '{card}' kártyával semlegesítette a(z) '{targetCard}' kártyát.",
+    action_reflected: "{player} a(z) '{card}' kártyával visszafordította a(z) '{targetCard}' kártyát.",
+    reaction_passed: '{player} nem reagált.',
+    metric_selected: "{player} a(z) '{card}' kijátszásával a kör metrikáját erre állította: {metric}.",
+    both_cards_played: 'Mindkét játékos kijátszotta a kártyáját!',
+    turn_started: '--> Most {player} köre.',
+    extra_turn_started: '--> {player} extra köre következik.',
+    card_discarded: "{player} eldobta a(z) '{card}' kártyát.",
+    discard_pile_reshuffled: 'A dobópakli ({count} lap) visszakeverve a húzópakliba.',
+    cards_drawn: '{player} húzott {count} lapot.',
+    hand_limit_exceeded: '{player} kezében túl sok lap van ({count}), dobnia kell {value} lapot!',
+    round_won: '{player} nyerte a kört! ({metric}: {value} vs {opponentValue})',
+    round_tied: 'Döntetlen a körben! ({metric}: {value} vs {opponentValue}). A kártyák visszakerültek a játékosokhoz.',
+    deck_out: 'Elfogyott a pakli, {players} nem tudott húzni!',
+    game_won: 'Játék vége! {player} nyert. Ok: {reason}',
+    game_tied: 'Játék vége! Döntetlen - {reason}',
+  },
+  endReasons: {
+    deck_out: 'Elfogyott a pakli, {players} nem tudott húzni!',
+    out_of_car_cards: '{targetPlayer} kifogyott az autós kártyákból!',
+    all_cards_played: 'minden lap elfogyott!',
+    round_target_reached: 'megvan a győzelemhez szükséges nyert körök száma!',
+    round_limit_reached: 'elérték a körlimitet!',
+    timeout: '{targetPlayer} ideje lejárt!',
+    forfeit: '{targetPlayer} {forfeitReason}.',
+  },
+  forfeitReasons: {
+    disconnect: 'nem csatlakozott vissza időben',
+    no_valid_move: 'nem tudott szabályos lépést tenni',
+  },
+};
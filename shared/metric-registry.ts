@@ -0,0 +1,59 @@
+// ======================================================================
+// shared/metric-registry.ts
+// A játszható metrikák regisztere: minden metrika megadja a forrás oszlopát
+// a CarList.csv-ben, a megjelenített nevét, mértékegységét, és hogy az
+// alacsonyabb érték számít-e jobbnak. A motor és a bot is innen dolgozik.
+// ======================================================================
+
+import { IMetricDefinition, MetricType, CoreMetricType } from './interfaces';
+
+export const CORE_METRICS: CoreMetricType[] = ['speed', 'hp', 'accel', 'weight', 'year'];
+
+// A definíciók konstansként, hogy az azonosítókból típus (MetricId) képezhető legyen
+const METRIC_DEFINITIONS = [
+  // Kötelező metrikák (minden kártyán szerepelnek)
+  { id: 'speed', sourceColumn: 'Top Speed', displayName: 'Végsebesség', unit: 'mph', lowerIsBetter: false, required: true, rankWeight: 1.0 },
+  { id: 'hp', sourceColumn: 'HP', displayName: 'Teljesítmény', unit: 'LE', lowerIsBetter: false, required: true, rankWeight: 0.9 },
+  { id: 'accel', sourceColumn: '0-60 Sec', displayName: 'Gyorsulás (0-60)', unit: 's', lowerIsBetter: true, required: true, rankWeight: 0.8 },
+  { id: 'weight', sourceColumn: 'Wt', displayName: 'Tömeg', unit: 'lb', lowerIsBetter: true, required: true, rankWeight: 0.7 },
+  { id: 'year', sourceColumn: 'Year', displayName: 'Évjárat', unit: '', lowerIsBetter: false, required: true, rankWeight: 0.5 },
+
+  // Opcionális metrikák (csak ott, ahol a táblázatban van adat)
+  { id: 'accel100', sourceColumn: '0-100 Sec', displayName: 'Gyorsulás (0-100)', unit: 's', lowerIsBetter: true, required: false },
+  { id: 'quarterMile', sourceColumn: '1/4 Mile', displayName: 'Negyed mérföld', unit: 's', lowerIsBetter: true, required: false },
+  { id: 'braking60', sourceColumn: '60-0 Feet', displayName: 'Fékút (60-0)', unit: 'ft', lowerIsBetter: true, required: false },
+  { id: 'braking100', sourceColumn: '100-0 Ft', displayName: 'Fékút (100-0)', unit: 'ft', lowerIsBetter: true, required: false },
+  { id: 'displacement', sourceColumn: 'Displ cc', displayName: 'Hengerűrtartalom', unit: 'cm³', lowerIsBetter: false, required: false },
+  { id: 'cylinders', sourceColumn: 'Cylinders', displayName: 'Hengerek száma', unit: 'db', lowerIsBetter: false, required: false },
+  { id: 'weightPerHp', sourceColumn: 'Wt / HP', displayName: 'Tömeg/teljesítmény', unit: 'lb/LE', lowerIsBetter: true, required: false },
+  { id: 'pi', sourceColumn: 'PI', displayName: 'Teljesítményindex', unit: 'PI', lowerIsBetter: false, required: false },
+  { id: 'lateralG60', sourceColumn: "60 mph g's", displayName: 'Oldalgyorsulás (60 mph)', unit: 'g', lowerIsBetter: false, required: false },
+  { id: 'lateralG100', sourceColumn: "100mph g's", displayName: 'Oldalgyorsulás (100 mph)', unit: 'g', lowerIsBetter: false, required: false },
+] as const;
+
+// A regiszterben szereplő metrikák azonosítói; szövegből (CSV, JSON, kliens) az isKnownMetric szűkít erre
+export type MetricId = typeof METRIC_DEFINITIONS[number]['id'];
+
+export const METRIC_REGISTRY: IMetricDefinition[] = [...METRIC_DEFINITIONS];
+
+const METRICS_BY_ID = new Map<string, IMetricDefinition>(METRIC_REGISTRY.map(metric => [metric.id, metric]));
+
+export const isKnownMetric = (metric: string): metric is MetricType => METRICS_BY_ID.has(metric);
+
+export const getMetricDefinition = (metric: MetricType): IMetricDefinition => {
+  const definition = METRICS_BY_ID.get(metric);
+  if (!definition) {
+    throw new Error(`Unknown metric: ${metric}`);
+  }
+  return definition;
+};
+
+/**
+ * Összehasonlít két értéket a metrika iránya szerint.
+ * Pozitív, ha az 'a' a jobb; negatív, ha a 'b'; 0 döntetlen esetén.
+ */
+export const compareMetricValues = (metric: MetricType, a: number, b: number): number => {
+  if (a === b) return 0;
+  const aIsBetter = getMetricDefinition(metric).lowerIsBetter ? a < b : a > b;
+  return aIsBetter ? 1 : -1;
+};
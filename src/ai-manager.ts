@@ -1,12 +1,43 @@
-import { IGameState, MetricType } from '../shared/interfaces';
-import { getCardDefinition } from '../shared/game-engine'; // isValidPlay import eltávolítva
+import { IGameState, IPlayCardPayload, MetricType } from '../shared/interfaces';
+import { getCardDefinition, isActionCardDef, isReactionCard, isValidPlay } from '../shared/game-engine';
 
-export function decideMove(gameState: IGameState, botId: string) {
+export type BotMove =
+    | { action: 'play'; cardInstanceId: string; payload: IPlayCardPayload }
+    | { action: 'discard'; cardInstanceId: string }
+    | { action: 'passReaction' };
+
+// A rangsor a legrosszabbtól a legjobbig: dobáskor a lista elején lévőket dobjuk el először.
+const DISCARD_PRIORITY_BY_RANK = ['D', 'C', 'B', 'A', 'S'];
+
+export function decideMove(gameState: IGameState, botId: string): BotMove | null {
     const botPlayer = gameState.players.find(p => p.id === botId);
     if (!botPlayer || botPlayer.hand.length === 0) {
         return null; // Nincs lapja
     }
 
+    // Kötelező dobás: a leggyengébb autót dobjuk el, az akciókártyákat megtartjuk
+    if (gameState.currentPlayerPhase === 'must_discard') {
+        const rankOf = (cardId: string) => {
+            const cardDef = getCardDefinition(cardId);
+            if (cardDef?.type !== 'car') return DISCARD_PRIORITY_BY_RANK.length;
+            const idx = DISCARD_PRIORITY_BY_RANK.indexOf(cardDef.carRank ?? '');
+            return idx === -1 ? 0 : idx;
+        };
+        const cardToDiscard = [...botPlayer.hand].sort((a, b) => rankOf(a.cardId) - rankOf(b.cardId))[0];
+        return { action: 'discard', cardInstanceId: cardToDiscard.instanceId };
+    }
+
+    // Reakcióablak: ha van kijátszható reakciókártyája, azzal válaszol, különben lemond róla
+    if (gameState.currentPlayerPhase === 'reaction_window') {
+        const reactionCard = botPlayer.hand.find(c => {
+            const cardDef = getCardDefinition(c.cardId);
+            return !!cardDef && isActionCardDef(cardDef) && isReactionCard(cardDef) && isValidPlay(gameState, botId, c.instanceId).isValid;
+        });
+        return reactionCard
+            ? { action: 'play', cardInstanceId: reactionCard.instanceId, payload: {} }
+            : { action: 'passReaction' };
+    }
+
     // Egyszerű stratégia: keres egy autós kártyát.
     // TODO: Fejleszteni a stratégiát (pl. akciókártya használata, legjobb metrika választása)
     const carCard = botPlayer.hand.find(c => getCardDefinition(c.cardId)?.type === 'car');
@@ -28,13 +59,40 @@ export function decideMove(gameState: IGameState, botId: string) {
 
     // Metrikát csak akkor választunk, ha a bot az első játékos a körben
     if (gameState.selectedMetricForRound === null) {
-        const availableMetrics: MetricType[] = ['speed', 'hp', 'accel', 'weight', 'year'];
+        const availableMetrics: MetricType[] = gameState.rules.playableMetrics;
         selectedMetric = availableMetrics[Math.floor(Math.random() * availableMetrics.length)];
     }
 
     // A validációt eltávolítottuk innen. Csak visszaadjuk a döntést.
     return {
+        action: 'play',
         cardInstanceId: carCard.instanceId,
         payload: { selectedMetric }
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Stratégia nélküli, véletlenszerű lépés (pl. egy időtúllépő játékos helyett):
+ * véletlen autós kártya véletlen metrikával, dobáskor véletlen lap, reakcióablakban lemondás.
+ */
+export function decideRandomMove(gameState: IGameState, playerId: string): BotMove | null {
+    const player = gameState.players.find(p => p.id === playerId);
+    if (!player || player.hand.length === 0) {
+        return null;
+    }
+    const pickRandom = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+    if (gameState.currentPlayerPhase === 'must_discard') {
+        return { action: 'discard', cardInstanceId: pickRandom(player.hand).instanceId };
+    }
+    if (gameState.currentPlayerPhase === 'reaction_window') {
+        return { action: 'passReaction' };
+    }
+
+    const carCards = player.hand.filter(c => getCardDefinition(c.cardId)?.type === 'car');
+    if (carCards.length === 0) {
+        return null;
+    }
+    const selectedMetric = gameState.selectedMetricForRound === null ? pickRandom(gameState.rules.playableMetrics) : undefined;
+    return { action: 'play', cardInstanceId: pickRandom(carCards).instanceId, payload: { selectedMetric } };
+}
@@ -0,0 +1,172 @@
+// ======================================================================
+// server/api-router.ts
+// Verziózott REST API
+// Felelőssége: Kártyakatalógus, futó játékok, a meccstörténet, az
+// értékszámok és a ranglisták kiszolgálása HTTP-n, a socketes
+// játékmenettől függetlenül.
+// ======================================================================
+
+import express, { Router, Request, Response } from 'express';
+import { getAllCardDefinitions, getCardDefinition } from '../shared/game-engine';
+import { METRIC_REGISTRY } from '../shared/metric-registry';
+import { GameManager } from './game-manager';
+import { MatchHistoryStore, MatchRecord } from './match-history';
+import { AuthService } from './auth';
+import { RatingService, parseLeaderboardPaging } from './rating-service';
+
+export const API_VERSION = 'v1';
+const DEFAULT_MATCH_LIMIT = 20;
+const MAX_MATCH_LIMIT = 100;
+
+/**
+ * Az API függőségei. A szerver a saját állapottárolóit adja át,
+ * a tesztek pedig egyszerű helyettesítőket.
+ */
+export interface ApiDependencies {
+  getActiveGames: () => GameManager[];
+  matchHistory: MatchHistoryStore;
+  ratingService?: RatingService;
+  auth?: AuthService;
+  startedAt?: number;
+}
+
+const parseLimit = (value: unknown): number | null => {
+  if (value === undefined) return DEFAULT_MATCH_LIMIT;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  return Math.min(limit, MAX_MATCH_LIMIT);
+};
+
+// A lista nézetben a teljes végállapot és eseménynapló nélkül küldjük a rekordokat
+const toMatchSummary = (record: MatchRecord) => ({
+  gameId: record.gameId,
+  participants: record.participants,
+  seed: record.seed,
+  startedAt: record.startedAt,
+  endedAt: record.endedAt,
+  durationMs: record.durationMs,
+  winnerId: record.winnerId,
+  gameStatus: record.gameStatus,
+  endReason: record.endReason,
+  eventCount: record.events.length,
+});
+
+export const createApiRouter = ({ getActiveGames, matchHistory, ratingService, auth, startedAt = Date.now() }: ApiDependencies): Router => {
+  const router = Router();
+
+  // --- Állapot ---
+
+  router.get('/health', (_req: Request, res: Response) => {
+    res.json({
+      status: 'ok',
+      version: API_VERSION,
+      uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+      activeGames: getActiveGames().length,
+    });
+  });
+
+  // Csak akkor kész, ha a kártyadefiníciók betöltődtek (enélkül játék sem indítható)
+  router.get('/ready', (_req: Request, res: Response) => {
+    const cardCount = getAllCardDefinitions().length;
+    if (cardCount === 0) {
+      res.status(503).json({ status: 'not_ready', reason: 'Card definitions are not loaded.' });
+      return;
+    }
+    res.json({ status: 'ready', cardCount });
+  });
+
+  // --- Authentikáció ---
+
+  // Vendég token: új azonosítót kap a játékos, amivel a socket kapcsolatot hitelesítheti
+  router.post('/auth/guest', express.json(), (req: Request, res: Response) => {
+    if (!auth?.canIssueTokens) {
+      res.status(501).json({ error: 'Guest tokens are not available on this server.' });
+      return;
+    }
+    const username = typeof req.body?.username === 'string' ? req.body.username : undefined;
+    res.status(201).json(auth.issueGuestToken(username));
+  });
+
+  // --- Kártyakatalógus ---
+
+  router.get('/cards', (req: Request, res: Response) => {
+    const { type } = req.query;
+    const cards = getAllCardDefinitions();
+    res.json(type === 'car' || type === 'action' ? cards.filter(card => card.type === type) : cards);
+  });
+
+  router.get('/cards/:id', (req: Request<{ id: string }>, res: Response) => {
+    const card = getCardDefinition(req.params.id);
+    if (!card) {
+      res.status(404).json({ error: `Card ${req.params.id} not found.` });
+      return;
+    }
+    res.json(card);
+  });
+
+  // A játszható metrikák leírása (név, mértékegység, irány) a kliens megjelenítéséhez
+  router.get('/metrics', (_req: Request, res: Response) => {
+    res.json(METRIC_REGISTRY);
+  });
+
+  // --- Futó játékok ---
+
+  router.get('/games', (_req: Request, res: Response) => {
+    res.json(getActiveGames().map(game => game.getSummary()));
+  });
+
+  // --- Meccstörténet ---
+
+  router.get('/players/:id/matches', async (req: Request<{ id: string }>, res: Response) => {
+    const limit = parseLimit(req.query.limit);
+    if (limit === null) {
+      res.status(400).json({ error: 'The limit query parameter must be a positive integer.' });
+      return;
+    }
+    const matches = await matchHistory.getMatchesByPlayer(req.params.id, limit);
+    res.json(matches.map(toMatchSummary));
+  });
+
+  // --- Értékszámok ---
+
+  // Aki még nem játszott rangsorolt játékot, a kezdő értékszámot kapja
+  router.get('/players/:id/rating', async (req: Request<{ id: string }>, res: Response) => {
+    if (!ratingService) {
+      res.status(501).json({ error: 'Ratings are not available on this server.' });
+      return;
+    }
+    res.json(await ratingService.getRating(req.params.id));
+  });
+
+  // --- Ranglisták ---
+
+  router.get('/seasons', (_req: Request, res: Response) => {
+    if (!ratingService) {
+      res.status(501).json({ error: 'Ratings are not available on this server.' });
+      return;
+    }
+    res.json(ratingService.getSeasons());
+  });
+
+  // season nélkül az összesített, season=current esetén a futó szezon ranglistája
+  router.get('/leaderboard', async (req: Request, res: Response) => {
+    if (!ratingService) {
+      res.status(501).json({ error: 'Ratings are not available on this server.' });
+      return;
+    }
+    const paging = parseLeaderboardPaging(req.query.offset, req.query.limit);
+    if (!paging.success) {
+      res.status(400).json({ error: paging.message });
+      return;
+    }
+    const seasonId = typeof req.query.season === 'string' ? req.query.season : undefined;
+    const season = ratingService.resolveSeason(seasonId);
+    if (!season.success) {
+      res.status(404).json({ error: season.message });
+      return;
+    }
+    res.json(await ratingService.getLeaderboard(season.season, paging.offset, paging.limit));
+  });
+
+  return router;
+};
@@ -0,0 +1,147 @@
+// ======================================================================
+// server/auth.ts
+// Token alapú authentikáció
+// Felelőssége: A kliensek által küldött JWT-k ellenőrzése és a vendég
+// tokenek kiadása. A régi, a klienstől kapott userId-ra épülő azonosítás
+// csak kifejezetten bekapcsolt fejlesztői módban érhető el.
+// ======================================================================
+
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { PlayerId } from '../shared/interfaces';
+
+/**
+ * Az authentikáció konfigurációja. Szimmetrikus kulcs (secret) esetén a
+ * szerver ki is tud adni tokent; nyilvános kulcs esetén csak ellenőrizni tud,
+ * a vendég tokenekhez ilyenkor a privát kulcs is szükséges.
+ */
+export interface AuthConfig {
+  secret?: string;
+  publicKey?: string;
+  privateKey?: string;
+  issuer?: string;
+  guestTokenTtlSeconds: number;
+  /** Fejlesztői mód: token nélkül is elfogadjuk a kliens által küldött (szanált) userId-t. */
+  devMode: boolean;
+}
+
+export interface AuthenticatedUser {
+  userId: PlayerId;
+  username: string;
+}
+
+export type VerifyTokenResult =
+  | { success: true; user: AuthenticatedUser }
+  | { success: false; message: string };
+
+export interface GuestToken extends AuthenticatedUser {
+  token: string;
+  expiresAt: number;
+}
+
+const DEFAULT_GUEST_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+const SYMMETRIC_ALGORITHMS: Algorithm[] = ['HS256'];
+const ASYMMETRIC_ALGORITHMS: Algorithm[] = ['RS256', 'ES256'];
+
+// Alapszintű, szerver-oldali szanálás (a tokenben érkező és a dev módú azonosítókra is)
+export const isValidId = (id: string) => /^[A-Za-z0-9_-]{3,32}$/.test(id);
+export const isValidUsername = (name: string) => /^[A-Za-z0-9 _\-.]{2,24}$/.test(name);
+export const sanitizeOrFallback = (value: string | undefined | null, fallback: string, validator: (v: string) => boolean) => {
+  if (!value || typeof value !== 'string') return fallback;
+  return validator(value) ? value : fallback;
+};
+
+/**
+ * Beolvassa a konfigurációt a környezeti változókból.
+ * A PEM kulcsokban a "\n" escape-elt sortöréseket visszaalakítjuk.
+ */
+export const loadAuthConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): AuthConfig => {
+  const pem = (value?: string) => value?.replace(/\\n/g, '\n');
+  return {
+    secret: env.JWT_SECRET || undefined,
+    publicKey: pem(env.JWT_PUBLIC_KEY) || undefined,
+    privateKey: pem(env.JWT_PRIVATE_KEY) || undefined,
+    issuer: env.JWT_ISSUER || undefined,
+    guestTokenTtlSeconds: Number(env.GUEST_TOKEN_TTL_SECONDS ?? DEFAULT_GUEST_TOKEN_TTL_SECONDS),
+    devMode: env.AUTH_DEV_MODE === 'true',
+  };
+};
+
+export class AuthService {
+  private config: AuthConfig;
+
+  constructor(config: AuthConfig) {
+    if (!config.secret && !config.publicKey && !config.devMode) {
+      throw new Error('Authentication is not configured: set JWT_SECRET or JWT_PUBLIC_KEY, or enable AUTH_DEV_MODE.');
+    }
+    this.config = config;
+  }
+
+  public get devMode() {
+    return this.config.devMode;
+  }
+
+  /** Csak akkor adhatunk ki tokent, ha van mivel aláírni. */
+  public get canIssueTokens() {
+    return !!(this.config.secret || this.config.privateKey);
+  }
+
+  /**
+   * Ellenőrzi a token aláírását és lejáratát, és kiolvassa belőle a játékost.
+   * A userId a 'sub', a megjelenített név a 'name' claim.
+   */
+  public verifyToken(token: unknown): VerifyTokenResult {
+    if (typeof token !== 'string' || !token) {
+      return { success: false, message: 'Hiányzó token.' };
+    }
+    const key = this.config.publicKey ?? this.config.secret;
+    if (!key) {
+      return { success: false, message: 'A szerver nem tud tokent ellenőrizni.' };
+    }
+
+    let payload: JwtPayload;
+    try {
+      const decoded = jwt.verify(token, key, {
+        algorithms: this.config.publicKey ? ASYMMETRIC_ALGORITHMS : SYMMETRIC_ALGORITHMS,
+        issuer: this.config.issuer,
+      });
+      if (typeof decoded === 'string') {
+        return { success: false, message: 'Érvénytelen token.' };
+      }
+      payload = decoded;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        return { success: false, message: 'A token lejárt.' };
+      }
+      return { success: false, message: 'Érvénytelen token.' };
+    }
+
+    const userId = payload.sub;
+    if (!userId || !isValidId(userId)) {
+      return { success: false, message: 'A token nem tartalmaz érvényes azonosítót.' };
+    }
+    const username = sanitizeOrFallback(payload.name as string | undefined, 'Guest', isValidUsername);
+    return { success: true, user: { userId, username } };
+  }
+
+  /**
+   * Vendég tokent ad ki egy újonnan generált azonosítóval.
+   */
+  public issueGuestToken(requestedUsername?: string): GuestToken {
+    const signingKey = this.config.privateKey ?? this.config.secret;
+    if (!signingKey) {
+      throw new Error('Guest tokens cannot be issued without JWT_SECRET or JWT_PRIVATE_KEY.');
+    }
+    const userId = `guest-${uuidv4().replace(/-/g, '').slice(0, 12)}`;
+    const username = sanitizeOrFallback(requestedUsername, 'Guest', isValidUsername);
+    const expiresAt = Date.now() + this.config.guestTokenTtlSeconds * 1000;
+
+    const token = jwt.sign({ name: username, guest: true }, signingKey, {
+      subject: userId,
+      expiresIn: this.config.guestTokenTtlSeconds,
+      algorithm: this.config.privateKey ? 'RS256' : 'HS256',
+      ...(this.config.issuer ? { issuer: this.config.issuer } : {}),
+    });
+    return { token, userId, username, expiresAt };
+  }
+}
@@ -1,9 +1,16 @@
 import { Server, Socket } from 'socket.io';
 import * as jsonpatch from 'fast-json-patch';
-import { IGameState, PlayerId, MetricType } from '../shared/interfaces';
-import { initializeGame, performPlay, getClientGameState, advanceTurn, endGameByTimeout, resolveRound, checkGameEndConditions } from '../shared/game-engine';
-import { decideMove } from './ai-manager';
-import { PlayerInLobby } from './match-making-manager';
+import { IGameState, PlayerId, IPlayCardPayload, GameEvent, ForfeitReason, ITimeControl, IGameSetup } from '../shared/interfaces';
+import { initializeGame, getClientGameState, getSpectatorGameState, checkGameEndConditions, getRemainingTimeMs, SYSTEM_ENGINE_CONTEXT } from '../shared/game-engine';
+import { applyEvent, createGameStartedEvent, ApplyEventResult } from '../shared/game-events';
+import { BotMove, decideMove, decideRandomMove } from './ai-manager';
+import { PlayerInLobby, QueueConfig, QueueId, TimeoutPolicy } from './match-making-manager';
+import { MatchHistoryStore } from './match-history';
+import { SeriesScore, createSeries, recordSeriesResult } from './rematch-manager';
+
+const DEFAULT_RECONNECT_GRACE_PERIOD_SECONDS = 30;
+const DEFAULT_TIMEOUT_POLICY: TimeoutPolicy = { type: 'forfeit' };
+const GAME_PAUSED_MESSAGE = 'A játék szünetel, várakozás az ellenfél visszacsatlakozására.';
 
 export class GameManager {
     public readonly gameId: string;
@@ -11,14 +18,41 @@ export class GameManager {
     
     private io: Server;
     private gameState: IGameState;
+    // Eseménynapló: a kezdőseedből és ebből a játék bármikor visszajátszható
+    private readonly seed: number;
+    private eventLog: GameEvent[] = [];
+    private readonly startedAt: number;
+    private matchHistory: MatchHistoryStore | null;
     private onGameEnd: (gameId: string) => void;
 
     private lastPlayerStates = new Map<PlayerId, IGameState>();
 
+    // Nézők: csak olvasható, mindkét kezet elrejtő nézetet kapnak, opcionális késleltetéssel
+    // (így egy közvetítésből nem lehet valós időben segíteni a játékosokat)
+    private spectators = new Map<PlayerId, Socket>();
+    private readonly spectatorRoom: string;
+    private readonly spectatorDelayMs: number;
+    private lastSpectatorState: IGameState | null = null;
+
     private playerSockets = new Map<PlayerId, Socket>();
     private botIds = new Set<PlayerId>();
     private turnTimer: NodeJS.Timeout | null = null;
-    private turnTimeLimit: number;
+    private readonly timeControl: ITimeControl;
+    private readonly setup: IGameSetup;
+    private readonly queueId: QueueId | null;
+    private series: SeriesScore; // A játék vége után már ennek a játéknak az eredményével
+    private turnTimerStartedAt = 0;
+    private turnTimerDurationMs = 0;
+    private readonly timeoutPolicy: TimeoutPolicy;
+    private timeoutStrikes = new Map<PlayerId, number>(); // Zsinórban elkövetett időtúllépések játékosonként
+
+    // Visszacsatlakozási türelmi idő: amíg valaki le van csatlakozva, a játék szünetel.
+    private reconnectGracePeriodMs: number;
+    private disconnectTimers = new Map<PlayerId, NodeJS.Timeout>();
+    private pausedAt: number | null = null;
+    private pausedTurnRemainingMs: number | null = null;
+    // A kör lezárásának / a körváltásnak az időzítője; szünet alatt nem fut, a folytatáskor újraindul
+    private phaseTimer: NodeJS.Timeout | null = null;
 
 // --- Konstruktor ------------------------------------------------
 
@@ -26,13 +60,30 @@ export class GameManager {
         gameId: string, 
         players: PlayerInLobby[], 
         io: Server, 
-        config: { turnTimeLimitSeconds: number },
+        config: {
+            timeControl: ITimeControl;
+            timeoutPolicy?: TimeoutPolicy;
+            setup?: IGameSetup;
+            queueId?: QueueId;   // Melyik várólistáról (vagy privát szobából) indult a játék
+            series?: SeriesScore; // A sorozat állása a játék előtt (visszavágó, best-of-N)
+            reconnectGracePeriodSeconds?: number;
+            spectatorDelaySeconds?: number;
+            matchHistory?: MatchHistoryStore;
+        },
         onGameEnd: (gameId: string) => void
     ) {
         this.gameId = gameId;
         this.players = players.map(p => ({ userId: p.userId, username: p.username, isBot: p.isBot }));
         this.io = io;
-        this.turnTimeLimit = config.turnTimeLimitSeconds * 1000;
+        this.timeControl = config.timeControl;
+        this.timeoutPolicy = config.timeoutPolicy ?? DEFAULT_TIMEOUT_POLICY;
+        this.setup = config.setup ?? {};
+        this.queueId = config.queueId ?? null;
+        this.series = config.series ?? createSeries(players.map(p => p.userId), null);
+        this.reconnectGracePeriodMs = (config.reconnectGracePeriodSeconds ?? DEFAULT_RECONNECT_GRACE_PERIOD_SECONDS) * 1000;
+        this.spectatorRoom = `${gameId}:spectators`;
+        this.spectatorDelayMs = (config.spectatorDelaySeconds ?? 0) * 1000;
+        this.matchHistory = config.matchHistory ?? null;
         this.onGameEnd = onGameEnd;
 
         players.forEach(p => {
@@ -47,13 +98,19 @@ export class GameManager {
             }
         });
 
+        this.startedAt = Date.now();
+        this.seed = this.startedAt;
         this.gameState = initializeGame(
             players.map(p => p.userId),
             players.map(p => p.username),
-            Date.now(),
-            this.turnTimeLimit,
-            true
+            this.seed,
+            this.timeControl,
+            true,
+            undefined,
+            SYSTEM_ENGINE_CONTEXT,
+            this.setup
         );
+        this.eventLog.push(createGameStartedEvent(this.gameState, this.setup));
 
         this.setupSocketListeners();
         this.startGame();
@@ -61,18 +118,35 @@ export class GameManager {
 
 // --- Publikus metódusok (a server.ts hívja őket) ------------------------------------------------
 
-    public handlePlayerDisconnect(playerId: PlayerId) {
+    public handlePlayerDisconnect(playerId: PlayerId, socketId?: string) {
+        // Egy régi socket késve érkező disconnect-je nem érinti a már visszacsatlakozott játékost.
+        const currentSocket = this.playerSockets.get(playerId);
+        if (socketId && currentSocket && currentSocket.id !== socketId) {
+            console.log(`[GameManager:${this.gameId}] Ignoring disconnect of stale socket ${socketId} for ${playerId}.`);
+            return;
+        }
+
         console.log(`[GameManager:${this.gameId}] Player ${playerId} disconnected.`);
         this.playerSockets.delete(playerId);
-        // Ha a játék még fut, a másik játékos nyer.
-        if (this.gameState.gameStatus === 'playing') {
-            const opponent = this.gameState.players.find(p => p.id !== playerId);
-            if (opponent) {
-                this.gameState.winnerId = opponent.id;
-                this.gameState.gameStatus = 'win';
-                this.endGame(`Player ${playerId} disconnected.`);
-            }
+        if (this.gameState.gameStatus !== 'playing' || this.disconnectTimers.has(playerId)) {
+            return;
         }
+
+        // Türelmi idő nélkül a másik játékos azonnal nyer.
+        if (this.reconnectGracePeriodMs <= 0) {
+            this.forfeit(playerId, 'disconnect', `Player ${playerId} disconnected.`);
+            return;
+        }
+
+        // Különben szüneteltetjük a játékot, és várunk a visszacsatlakozásra.
+        this.pauseGame();
+        const reconnectDeadline = Date.now() + this.reconnectGracePeriodMs;
+        this.disconnectTimers.set(playerId, setTimeout(() => this.handleReconnectTimeout(playerId), this.reconnectGracePeriodMs));
+        this.io.to(this.gameId).emit('game:opponentDisconnected', {
+            playerId,
+            gracePeriodSeconds: this.reconnectGracePeriodMs / 1000,
+            reconnectDeadline,
+        });
     }
 
     public handlePlayerReconnect(playerId: PlayerId, newSocket: Socket) {
@@ -80,6 +154,16 @@ export class GameManager {
         this.playerSockets.set(playerId, newSocket);
         newSocket.join(this.gameId);
         this.setupSocketListenersForSocket(newSocket, playerId);
+
+        const disconnectTimer = this.disconnectTimers.get(playerId);
+        if (disconnectTimer) {
+            clearTimeout(disconnectTimer);
+            this.disconnectTimers.delete(playerId);
+            if (this.disconnectTimers.size === 0) {
+                this.resumeGame();
+            }
+            this.io.to(this.gameId).emit('game:opponentReconnected', { playerId });
+        }
         
         // Visszacsatlakozáskor a TELJES állapotot küldjük el, és frissítjük a tárolónkat.
         const clientState = getClientGameState(this.gameState, playerId);
@@ -91,6 +175,81 @@ export class GameManager {
         return this.players;
     }
 
+    public isPlayer(userId: PlayerId) {
+        return this.players.some(p => p.userId === userId);
+    }
+
+    /**
+     * Egy néző csatlakozik a futó játékhoz. A legutóbb (késleltetve) kiküldött
+     * nézői állapotot kapja meg teljes egészében, utána patcheket.
+     */
+    public addSpectator(userId: PlayerId, socket: Socket): { success: boolean; message?: string } {
+        if (this.isPlayer(userId)) {
+            return { success: false, message: 'A saját játékodat nem nézheted nézőként.' };
+        }
+        if (this.gameState.gameStatus !== 'playing') {
+            return { success: false, message: 'Ez a játék már véget ért.' };
+        }
+        this.spectators.get(userId)?.leave(this.spectatorRoom);
+        this.spectators.set(userId, socket);
+        socket.join(this.spectatorRoom);
+        socket.emit('game:spectateStart', { gameId: this.gameId, players: this.players, timeControl: this.timeControl, delaySeconds: this.spectatorDelayMs / 1000 });
+        if (this.lastSpectatorState) {
+            socket.emit('game:stateUpdate', this.lastSpectatorState);
+        }
+        console.log(`[GameManager:${this.gameId}] ${userId} is now spectating. Spectators: ${this.spectators.size}`);
+        return { success: true };
+    }
+
+    // Egy régi socket késve érkező kilépése nem érinti az azóta újra csatlakozott nézőt
+    public removeSpectator(userId: PlayerId, socketId?: string) {
+        const socket = this.spectators.get(userId);
+        if (!socket || (socketId && socket.id !== socketId)) return false;
+        socket.leave(this.spectatorRoom);
+        this.spectators.delete(userId);
+        console.log(`[GameManager:${this.gameId}] ${userId} stopped spectating. Spectators: ${this.spectators.size}`);
+        return true;
+    }
+
+    public getSpectatorCount() {
+        return this.spectators.size;
+    }
+
+    // Rövid összefoglaló a futó játékról (pl. a REST API számára)
+    public getSummary() {
+        return {
+            gameId: this.gameId,
+            players: this.players,
+            gameStatus: this.gameState.gameStatus,
+            winnerId: this.gameState.winnerId,
+            currentPlayerId: this.gameState.currentPlayerId,
+            phase: this.gameState.currentPlayerPhase,
+            scores: Object.fromEntries(this.gameState.players.map(p => [p.id, p.score])),
+            isPaused: this.isPaused(),
+            spectatorCount: this.getSpectatorCount(),
+            queueId: this.queueId,
+            seriesId: this.series.seriesId,
+            startedAt: this.startedAt,
+        };
+    }
+
+    // A játék beállításai (pl. egy visszavágó ugyanezekkel indul)
+    public getMatchSettings(): { queueId: QueueId | null; series: SeriesScore; queue: QueueConfig } {
+        return {
+            queueId: this.queueId,
+            series: this.series,
+            queue: { timeControl: this.timeControl, timeoutPolicy: this.timeoutPolicy, setup: this.setup },
+        };
+    }
+
+    public getSeed() {
+        return this.seed;
+    }
+
+    public getEventLog(): GameEvent[] {
+        return [...this.eventLog];
+    }
+
 // --- Privát, belső működés ------------------------------------------------
 
     private setupSocketListeners() {
@@ -102,14 +261,27 @@ export class GameManager {
     private setupSocketListenersForSocket(socket: Socket, playerId: PlayerId) {
         // A listener-eket "off"-oljuk először, hogy a reconnect ne duplikálja őket
         socket.removeAllListeners('game:playCard');
+        socket.removeAllListeners('game:discardCard');
         socket.removeAllListeners('game:advanceTurn');
+        socket.removeAllListeners('game:passReaction');
 
         socket.on('game:playCard', (data) => this.handlePlayerMove(playerId, data as { cardInstanceId: string; payload?: Record<string, unknown> }));
+        socket.on('game:discardCard', (data) => this.handlePlayerDiscard(playerId, data as { cardInstanceId: string }));
         socket.on('game:advanceTurn', () => this.handleAdvanceTurn());
+        socket.on('game:passReaction', () => this.handlePassReaction(playerId));
+    }
+
+    // Minden állapotváltozás innen indul: az eseményt alkalmazzuk, és siker esetén naplózzuk.
+    private dispatch(event: GameEvent): ApplyEventResult {
+        const result = applyEvent(this.gameState, event);
+        if (result.success) {
+            this.eventLog.push(event);
+        }
+        return result;
     }
 
     private startGame() {
-        this.io.to(this.gameId).emit('game:start', { gameId: this.gameId, players: this.players });
+        this.io.to(this.gameId).emit('game:start', { gameId: this.gameId, players: this.players, timeControl: this.timeControl });
         
         // A játék indításakor mindenki megkapja a teljes kezdőállapotot.
         this.gameState.players.forEach(p => {
@@ -123,6 +295,7 @@ export class GameManager {
                 }
             }
         });
+        this.lastSpectatorState = getSpectatorGameState(this.gameState);
 
         this.startTurnTimer();
     }
@@ -132,6 +305,10 @@ export class GameManager {
         if (this.gameState.currentPlayerId !== playerId || this.gameState.gameStatus !== 'playing') {
             return; 
         }
+        if (this.isPaused()) {
+            this.playerSockets.get(playerId)?.emit('game:error', { message: GAME_PAUSED_MESSAGE });
+            return;
+        }
 
         // Block moves during comparison phase
         if (this.gameState.currentPlayerPhase === 'both_cards_on_board') {
@@ -141,10 +318,17 @@ export class GameManager {
         }
 
         // No more try-catch here
-        const result = performPlay(this.gameState, playerId, data.cardInstanceId, (data.payload || {}) as { selectedMetric?: MetricType; targetPlayerId?: string });
+        const result = this.dispatch({
+            type: 'PlayCard',
+            timestamp: Date.now(),
+            playerId,
+            cardInstanceId: data.cardInstanceId,
+            payload: (data.payload || {}) as IPlayCardPayload,
+        });
         
         if (result.success) {
             // SUCCESS: Update the game state
+            this.timeoutStrikes.delete(playerId);
             this.updateState(result.newState);
         } else {
             // INVALID MOVE: Send error to the player only
@@ -154,10 +338,89 @@ export class GameManager {
         }
     }
     
+    private handlePlayerDiscard(playerId: PlayerId, data: { cardInstanceId: string }) {
+        console.log(`[GameManager:${this.gameId}] handlePlayerDiscard from ${playerId} in phase=${this.gameState.currentPlayerPhase}`);
+        if (this.gameState.gameStatus !== 'playing') {
+            return;
+        }
+        if (this.isPaused()) {
+            this.playerSockets.get(playerId)?.emit('game:error', { message: GAME_PAUSED_MESSAGE });
+            return;
+        }
+
+        const result = this.dispatch({ type: 'Discard', timestamp: Date.now(), playerId, cardInstanceId: data?.cardInstanceId });
+
+        if (result.success) {
+            this.timeoutStrikes.delete(playerId);
+            this.updateState(result.newState);
+        } else {
+            console.error(`[GameManager:${this.gameId}] Invalid discard by ${playerId}: ${result.message}`);
+            this.playerSockets.get(playerId)?.emit('game:error', { message: result.message });
+        }
+    }
+
+    private handlePassReaction(playerId: PlayerId) {
+        if (this.gameState.gameStatus !== 'playing') {
+            return;
+        }
+        if (this.isPaused()) {
+            this.playerSockets.get(playerId)?.emit('game:error', { message: GAME_PAUSED_MESSAGE });
+            return;
+        }
+
+        const result = this.dispatch({ type: 'PassReaction', timestamp: Date.now(), playerId });
+        if (result.success) {
+            this.timeoutStrikes.delete(playerId);
+            this.updateState(result.newState);
+        } else {
+            this.playerSockets.get(playerId)?.emit('game:error', { message: result.message });
+        }
+    }
+
+    // A kör lezárása (both_cards_on_board) és a körváltás (round_resolved) késleltetve történik.
+    // Szünet alatt nem ütemezzük: a folytatáskor a resumeGame indítja újra.
+    private schedulePhaseStep() {
+        this.clearPhaseTimer();
+        if (this.isPaused()) return;
+
+        if (this.gameState.currentPlayerPhase === 'both_cards_on_board') {
+            console.log(`[GameManager:${this.gameId}] Entered both_cards_on_board. Scheduling resolve in 1000ms...`);
+            this.phaseTimer = setTimeout(() => {
+                this.phaseTimer = null;
+                // Ensure we are still in the same phase and game not ended
+                if (this.gameState.gameStatus !== 'playing' || this.gameState.currentPlayerPhase !== 'both_cards_on_board') {
+                    console.log(`[GameManager:${this.gameId}] Resolve skipped: phase changed to ${this.gameState.currentPlayerPhase} or game ended.`);
+                    return;
+                }
+                console.log(`[GameManager:${this.gameId}] Resolving round now...`);
+                // After resolving, the engine moves to round_resolved unless a discard phase is required
+                const result = this.dispatch({ type: 'ResolveRound', timestamp: Date.now() });
+                if (result.success) {
+                    this.updateState(result.newState);
+                }
+            }, 1000);
+        } else if (this.gameState.currentPlayerPhase === 'round_resolved') {
+            console.log(`[GameManager:${this.gameId}] Round resolved, auto-advancing turn in 1500ms...`);
+            this.phaseTimer = setTimeout(() => {
+                this.phaseTimer = null;
+                this.handleAdvanceTurn();
+            }, 1500);
+        }
+    }
+
+    private clearPhaseTimer() {
+        if (this.phaseTimer) {
+            clearTimeout(this.phaseTimer);
+            this.phaseTimer = null;
+        }
+    }
+
     private handleAdvanceTurn() {
         if (this.gameState.currentPlayerPhase === 'round_resolved' && this.gameState.gameStatus === 'playing') {
-            const newState = advanceTurn(this.gameState, this.gameState.roundWinnerId);
-            this.updateState(newState);
+            const result = this.dispatch({ type: 'AdvanceTurn', timestamp: Date.now() });
+            if (result.success) {
+                this.updateState(result.newState);
+            }
         }
     }
     
@@ -177,46 +440,40 @@ export class GameManager {
         
         {
             // Handle special phases
-            if (this.gameState.currentPlayerPhase === 'both_cards_on_board') {
-                // No turn timer during comparison; schedule resolve
+            if (this.gameState.currentPlayerPhase === 'both_cards_on_board' || this.gameState.currentPlayerPhase === 'round_resolved') {
+                // No turn timer during comparison; schedule resolve / advance
                 this.clearTurnTimer();
-                console.log(`[GameManager:${this.gameId}] Entered both_cards_on_board. Scheduling resolve in 1000ms...`);
-                setTimeout(() => {
-                    // Ensure we are still in the same phase and game not ended
-                    if (this.gameState.gameStatus !== 'playing' || this.gameState.currentPlayerPhase !== 'both_cards_on_board') {
-                        console.log(`[GameManager:${this.gameId}] Resolve skipped: phase changed to ${this.gameState.currentPlayerPhase} or game ended.`);
-                        return;
-                    }
-                    console.log(`[GameManager:${this.gameId}] Resolving round now...`);
-                    const resolved = resolveRound(this.gameState);
-                    // After resolving, move to round_resolved unless we require a discard phase
-                    if (resolved.currentPlayerPhase !== 'must_discard') {
-                        resolved.currentPlayerPhase = 'round_resolved';
-                    }
-                    this.updateState(resolved);
-                }, 1000);
+                this.schedulePhaseStep();
                 return; // Do not schedule bots or timers in this interim phase
             }
 
-            if (this.gameState.currentPlayerPhase === 'round_resolved') {
-                this.clearTurnTimer();
-                console.log(`[GameManager:${this.gameId}] Round resolved, auto-advancing turn in 1500ms...`);
-                setTimeout(() => this.handleAdvanceTurn(), 1500);
+            // A reakcióablaknak saját, rövidebb ideje van; lejártakor a reakció elmarad (nem vereség)
+            if (this.gameState.currentPlayerPhase === 'reaction_window') {
+                this.startTurnTimer(this.gameState.rules.reactionWindowSeconds * 1000);
+                this.scheduleBotMoveIfNeeded();
                 return;
             }
 
             // Regular interactive phase: start timer and trigger bot if needed
             this.startTurnTimer();
-            const shouldTriggerBot = this.botIds.has(this.gameState.currentPlayerId)
-              && (this.gameState.currentPlayerPhase === 'waiting_for_initial_play' || this.gameState.currentPlayerPhase === 'waiting_for_car_card_after_action');
-            if (shouldTriggerBot) {
-                console.log(`[GameManager:${this.gameId}] Scheduling bot move in 1500ms for ${this.gameState.currentPlayerId}...`);
-                setTimeout(() => this.triggerBotMove(), 1500);
-            }
+            this.scheduleBotMoveIfNeeded();
+        }
+    }
+    private scheduleBotMoveIfNeeded() {
+        const shouldTriggerBot = this.botIds.has(this.gameState.currentPlayerId)
+          && (this.gameState.currentPlayerPhase === 'waiting_for_initial_play'
+            || this.gameState.currentPlayerPhase === 'waiting_for_car_card_after_action'
+            || this.gameState.currentPlayerPhase === 'must_discard'
+            || this.gameState.currentPlayerPhase === 'reaction_window');
+        if (shouldTriggerBot && !this.isPaused()) {
+            console.log(`[GameManager:${this.gameId}] Scheduling bot move in 1500ms for ${this.gameState.currentPlayerId}...`);
+            setTimeout(() => this.triggerBotMove(), 1500);
         }
     }
     private triggerBotMove() {
         if (!this.botIds.has(this.gameState.currentPlayerId) || this.gameState.gameStatus !== 'playing') return;
+        // Szünet alatt a bot sem lép; a folytatáskor újra ütemezzük
+        if (this.isPaused()) return;
 
         if (this.gameState.currentPlayerPhase === 'both_cards_on_board') {
             console.log(`[GameManager:${this.gameId}] Bot move suppressed during both_cards_on_board phase.`);
@@ -229,7 +486,7 @@ export class GameManager {
 
         if (move) {
             // No more try-catch here
-            const result = performPlay(this.gameState, botId, move.cardInstanceId, move.payload);
+            const result = this.dispatchBotMove(botId, move);
             
             if (result.success) {
                 this.updateState(result.newState);
@@ -238,24 +495,27 @@ export class GameManager {
                 // as the bot's move should ideally always be valid if one exists.
                 console.error(`[GameManager:${this.gameId}] Bot ${botId} attempted an invalid move: ${result.message}. Forcing forfeit.`);
                 // Force forfeit as the bot is stuck
-                const opponent = this.gameState.players.find(p => p.id !== botId);
-                if (opponent) {
-                    this.gameState.winnerId = opponent.id;
-                    this.gameState.gameStatus = 'win';
-                    this.endGame(`Bot ${botId} failed to make a valid move.`);
-                }
+                this.forfeit(botId, 'no_valid_move', `Bot ${botId} failed to make a valid move.`);
             }
         } else {
             // Bot has no moves, handle forfeit (logic remains the same)
             console.log(`[GameManager:${this.gameId}] Bot ${botId} has no valid moves and forfeits.`);
-            const opponent = this.gameState.players.find(p => p.id !== botId);
-            if (opponent) {
-                this.gameState.winnerId = opponent.id;
-                this.gameState.gameStatus = 'win';
-                this.endGame(`Bot ${botId} could not make a move.`);
-            }
+            this.forfeit(botId, 'no_valid_move', `Bot ${botId} could not make a move.`);
+        }
+    }
+    // A bot (vagy egy időtúllépő játékos helyett lépő automatika) döntését eseményként alkalmazzuk
+    private dispatchBotMove(playerId: PlayerId, move: BotMove, automatic = false): ApplyEventResult {
+        const timestamp = Date.now();
+        switch (move.action) {
+            case 'discard':
+                return this.dispatch({ type: 'Discard', timestamp, playerId, cardInstanceId: move.cardInstanceId, automatic });
+            case 'passReaction':
+                return this.dispatch({ type: 'PassReaction', timestamp, playerId });
+            case 'play':
+                return this.dispatch({ type: 'PlayCard', timestamp, playerId, cardInstanceId: move.cardInstanceId, payload: move.payload, automatic });
         }
     }
+
     private broadcastState() {
         this.gameState.players.forEach(p => {
             if (this.botIds.has(p.id)) return; // Botoknak nem küldünk socket üzenetet
@@ -273,13 +533,42 @@ export class GameManager {
                 }
             }
         });
+        this.broadcastSpectatorState();
+    }
+
+    // A nézők a késleltetés leteltével kapják meg az állapotot (a sorrend a közös késleltetés miatt megmarad)
+    private emitToSpectators(send: () => void) {
+        if (this.spectatorDelayMs > 0) {
+            setTimeout(send, this.spectatorDelayMs);
+        } else {
+            send();
+        }
+    }
+
+    private broadcastSpectatorState() {
+        const spectatorState = getSpectatorGameState(this.gameState);
+        this.emitToSpectators(() => {
+            const patch = jsonpatch.compare(this.lastSpectatorState ?? {}, spectatorState);
+            if (patch.length > 0) {
+                this.io.to(this.spectatorRoom).emit('game:patch', patch);
+                this.lastSpectatorState = spectatorState;
+            }
+        });
     }
     
-    private startTurnTimer() {
+    // Alapból a soron lévő játékos időbankjában hátralévő ideig vár (sakkóra)
+    private startTurnTimer(durationMs: number = getRemainingTimeMs(this.gameState, this.gameState.currentPlayerId)) {
         this.clearTurnTimer();
+        // Szünet alatt nem indul az óra, csak megjegyezzük, mennyi ideje lesz a játékosnak a folytatáskor
+        if (this.isPaused()) {
+            this.pausedTurnRemainingMs = durationMs;
+            return;
+        }
+        this.turnTimerStartedAt = Date.now();
+        this.turnTimerDurationMs = durationMs;
         this.turnTimer = setTimeout(() => {
             this.handleTimeout();
-        }, this.turnTimeLimit);
+        }, durationMs);
     }
 
     private clearTurnTimer() {
@@ -289,30 +578,175 @@ export class GameManager {
         }
     }
     
+    private isPaused() {
+        return this.pausedAt !== null;
+    }
+
+    private pauseGame() {
+        if (this.isPaused()) return;
+        const now = Date.now();
+        if (this.turnTimer) {
+            this.pausedTurnRemainingMs = Math.max(0, this.turnTimerDurationMs - (now - this.turnTimerStartedAt));
+            this.clearTurnTimer();
+        }
+        // A kör lezárása és a körváltás is vár a folytatásig, különben szünet alatt indulna új kör
+        this.clearPhaseTimer();
+        this.pausedAt = now;
+        console.log(`[GameManager:${this.gameId}] Game paused. Remaining turn time: ${this.pausedTurnRemainingMs}ms`);
+    }
+
+    private resumeGame() {
+        if (this.pausedAt === null || this.gameState.gameStatus !== 'playing') return;
+        const pausedForMs = Date.now() - this.pausedAt;
+        this.pausedAt = null;
+
+        // A kliensek a currentTurnStartTime-ból számolják a hátralévő időt, ezért eltoljuk a szünet hosszával.
+        const result = this.dispatch({ type: 'Resume', timestamp: Date.now(), pausedForMs });
+        if (result.success) {
+            this.gameState = result.newState;
+        }
+        if (this.pausedTurnRemainingMs !== null) {
+            this.startTurnTimer(this.pausedTurnRemainingMs);
+            this.pausedTurnRemainingMs = null;
+        }
+        console.log(`[GameManager:${this.gameId}] Game resumed after ${pausedForMs}ms.`);
+        this.broadcastState();
+        this.schedulePhaseStep();
+        this.scheduleBotMoveIfNeeded();
+    }
+
+    private handleReconnectTimeout(playerId: PlayerId) {
+        this.disconnectTimers.delete(playerId);
+        if (this.gameState.gameStatus !== 'playing') return;
+        console.log(`[GameManager:${this.gameId}] Player ${playerId} did not reconnect in time.`);
+        this.forfeit(playerId, 'disconnect', `Player ${playerId} did not reconnect within ${this.reconnectGracePeriodMs / 1000}s.`);
+    }
+
+    private forfeit(playerId: PlayerId, reason: ForfeitReason, logMessage: string) {
+        const result = this.dispatch({ type: 'Forfeit', timestamp: Date.now(), playerId, reason });
+        if (result.success) {
+            this.gameState = result.newState;
+            this.broadcastState();
+            this.endGame(logMessage);
+        }
+    }
+
+    private clearDisconnectTimers() {
+        this.disconnectTimers.forEach(timer => clearTimeout(timer));
+        this.disconnectTimers.clear();
+    }
+
     private handleTimeout() {
         if (this.gameState.gameStatus !== 'playing') return;
 
-        console.log(`[GameManager:${this.gameId}] Player ${this.gameState.currentPlayerId} timed out.`);
-        const newState = endGameByTimeout(this.gameState, this.gameState.currentPlayerId);
-        this.updateState(newState); // Az updateState kezeli az endGame-et és a broadcast-ot
+        // A reakcióidő lejárta nem vereség: a várakozó akciókártya hatásai érvényesülnek
+        if (this.gameState.currentPlayerPhase === 'reaction_window') {
+            console.log(`[GameManager:${this.gameId}] Reaction window of ${this.gameState.currentPlayerId} expired.`);
+            const result = this.dispatch({ type: 'PassReaction', timestamp: Date.now(), playerId: this.gameState.currentPlayerId });
+            if (result.success) {
+                this.updateState(result.newState);
+            }
+            return;
+        }
+
+        const playerId = this.gameState.currentPlayerId;
+        console.log(`[GameManager:${this.gameId}] Player ${playerId} timed out (policy: ${this.timeoutPolicy.type}).`);
+
+        // A várólista szabálya szerint a játékos helyett lépünk; ha ez nem lehetséges, az időtúllépés vereség
+        const move = this.decideTimeoutMove(playerId);
+        if (move) {
+            const autoMoveResult = this.dispatchBotMove(playerId, move, true);
+            if (autoMoveResult.success) {
+                this.io.to(this.gameId).emit('game:timeout', {
+                    playerId,
+                    policy: this.timeoutPolicy.type,
+                    strikes: this.timeoutStrikes.get(playerId) ?? 0,
+                });
+                this.updateState(autoMoveResult.newState);
+                return;
+            }
+            console.error(`[GameManager:${this.gameId}] Automatic move for ${playerId} failed: ${autoMoveResult.message}`);
+        }
+
+        const result = this.dispatch({ type: 'Timeout', timestamp: Date.now(), playerId });
+        if (result.success) {
+            this.updateState(result.newState); // Az updateState kezeli az endGame-et és a broadcast-ot
+        }
+    }
+
+    // Az időtúllépő játékos helyetti lépés; null esetén a játékos veszít
+    private decideTimeoutMove(playerId: PlayerId): BotMove | null {
+        switch (this.timeoutPolicy.type) {
+            case 'forfeit':
+                return null;
+            case 'auto_play':
+                return decideMove(this.gameState, playerId);
+            case 'random_metric':
+                return decideRandomMove(this.gameState, playerId);
+            case 'strikes': {
+                const strikes = (this.timeoutStrikes.get(playerId) ?? 0) + 1;
+                this.timeoutStrikes.set(playerId, strikes);
+                return strikes < this.timeoutPolicy.maxConsecutiveTimeouts ? decideMove(this.gameState, playerId) : null;
+            }
+        }
     }
 
     private endGame(reason: string) {
         this.clearTurnTimer();
+        this.clearPhaseTimer();
+        this.clearDisconnectTimers();
         console.log(`[GameManager:${this.gameId}] Game has ended. Reason: ${reason}. Winner: ${this.gameState.winnerId}`);
-        this.io.to(this.gameId).emit('game:end', { 
+        this.series = recordSeriesResult(this.series, this.gameState.winnerId);
+        const gameEnd = {
             winnerId: this.gameState.winnerId,
             gameStatus: this.gameState.gameStatus,
+            matchFormat: this.gameState.rules.matchFormat,
+            roundsPlayed: this.gameState.roundsPlayed,
+            scores: Object.fromEntries(this.gameState.players.map(p => [p.id, p.score])),
+            series: this.series,
+        };
+        this.io.to(this.gameId).emit('game:end', gameEnd);
+        // A nézők a játék végét is késleltetve kapják; utána elhagyják a nézői szobát
+        this.emitToSpectators(() => {
+            this.io.to(this.spectatorRoom).emit('game:end', gameEnd);
+            this.spectators.forEach(socket => socket.leave(this.spectatorRoom));
+            this.spectators.clear();
         });
+        this.saveMatchHistory(reason);
         
         // Szólunk a fő szervernek, hogy végzett, és törölhető.
         this.onGameEnd(this.gameId);
     }
+    private saveMatchHistory(endReason: string) {
+        if (!this.matchHistory) return;
+        const endedAt = Date.now();
+        // A mentés nem blokkolja a játék lezárását; hiba esetén csak naplózunk
+        this.matchHistory.saveMatch({
+            gameId: this.gameId,
+            participants: this.players.map(p => ({ ...p })),
+            seed: this.seed,
+            startedAt: this.startedAt,
+            endedAt,
+            durationMs: endedAt - this.startedAt,
+            winnerId: this.gameState.winnerId,
+            gameStatus: this.gameState.gameStatus,
+            endReason,
+            finalState: this.gameState,
+            events: this.getEventLog(),
+        }).catch(error => {
+            console.error(`[GameManager:${this.gameId}] Failed to save match history:`, error);
+        });
+    }
+
     public destroy() {
         this.clearTurnTimer();
+        this.clearPhaseTimer();
+        this.clearDisconnectTimers();
         this.playerSockets.forEach((socket) => {
             socket.removeAllListeners('game:playCard');
+            socket.removeAllListeners('game:discardCard');
             socket.removeAllListeners('game:advanceTurn');
+            socket.removeAllListeners('game:passReaction');
             socket.leave(this.gameId);
         });
         console.log(`[GameManager:${this.gameId}] Cleaned up and destroyed.`);
@@ -8,16 +8,47 @@ import { loadCardDefinitions } from '../shared/game-engine';
 import { PlayerId } from '../shared/interfaces';
 import path from 'path';
 
-import MatchmakingManager, { PlayerInLobby } from './match-making-manager';
+import MatchmakingManager, { MatchFoundEvent, QueueId } from './match-making-manager';
+import RoomManager, { RoomSettingsInput } from './room-manager';
+import RematchManager from './rematch-manager';
 import { GameManager } from './game-manager';
+import { FileMatchHistoryStore } from './match-history';
+import { FileRatingStore, RatingService, parseLeaderboardPaging } from './rating-service';
+import { Season, loadSeasons } from './seasons';
+import { createApiRouter, API_VERSION } from './api-router';
+import { AuthService, loadAuthConfigFromEnv, isValidId, isValidUsername, sanitizeOrFallback } from './auth';
 import { v4 as uuidv4 } from 'uuid';
 // --- Konfiguráció ---
 const PORT = process.env.PORT || 3000;
+// Ennyi ideje van egy lecsatlakozott játékosnak visszatérni, mielőtt elveszíti a játékot (0 = azonnali vereség)
+const RECONNECT_GRACE_PERIOD_SECONDS = Number(process.env.RECONNECT_GRACE_PERIOD_SECONDS ?? 30);
+// A nézők ennyi késéssel látják a játékot, hogy a közvetítésből ne lehessen segíteni (0 = élő)
+const SPECTATOR_DELAY_SECONDS = Number(process.env.SPECTATOR_DELAY_SECONDS ?? 0);
+// A játék vége után ennyi ideig lehet visszavágót kérni
+const REMATCH_WINDOW_SECONDS = Number(process.env.REMATCH_WINDOW_SECONDS ?? 30);
+// A befejezett meccsek ide kerülnek (soronként egy JSON rekord)
+const MATCH_HISTORY_FILE = process.env.MATCH_HISTORY_FILE || path.join(__dirname, '..', 'data', 'match-history.jsonl');
+// A játékosok értékszámai (rangsorolt játékokból)
+const RATINGS_FILE = process.env.RATINGS_FILE || path.join(__dirname, '..', 'data', 'ratings.json');
+// A rangsorolt szezonok kezdő és záró időpontjai (ha a fájl nincs meg, csak összesített ranglista van)
+const SEASONS_FILE = process.env.SEASONS_FILE || path.join(__dirname, '..', 'data', 'seasons.json');
+
+// A szezonok beolvasása: hibás vagy átfedő szezonokkal a szerver nem indul el
+let seasons: Season[];
+try {
+  seasons = loadSeasons(SEASONS_FILE);
+  console.log(`✅ Loaded ${seasons.length} ranked season(s).`);
+} catch (error) {
+  console.error("❌ CRITICAL: Failed to load the seasons config. Server cannot start.", error);
+  process.exit(1);
+}
 
 // --- A Szerver Fő Állapottárolói ---
 // Ezek a globális tárolók fogják össze a teljes szerver állapotát.
 const activeGames = new Map<string, GameManager>();
 const playerToGameMap = new Map<PlayerId, string>();
+const matchHistory = new FileMatchHistoryStore(MATCH_HISTORY_FILE);
+const ratingService = new RatingService(new FileRatingStore(RATINGS_FILE), { seasons });
 
 interface CustomSocket extends Socket {
   data: {
@@ -26,17 +57,56 @@ interface CustomSocket extends Socket {
   };
 }
 
+// Authentikáció: JWT ellenőrzés, vagy kifejezetten bekapcsolt fejlesztői mód (AUTH_DEV_MODE=true)
+let auth: AuthService;
+try {
+  auth = new AuthService(loadAuthConfigFromEnv());
+  if (auth.devMode) {
+    console.warn("⚠️ AUTH_DEV_MODE is enabled: clients may identify themselves without a token.");
+  }
+} catch (error) {
+  console.error("❌ CRITICAL: Authentication is not configured. Server cannot start.", error);
+  process.exit(1);
+}
+
 const app = express();
 
 // Serve static images
 const imagesPath = path.join(__dirname, '..', 'public', 'images');
 app.use('/images', express.static(imagesPath));
 
+// REST API: a verziózott útvonal mellett a verzió nélküli /api is az aktuális verzióra mutat
+const apiRouter = createApiRouter({
+  getActiveGames: () => [...activeGames.values()],
+  matchHistory,
+  ratingService,
+  auth,
+});
+app.use(`/api/${API_VERSION}`, apiRouter);
+app.use('/api', apiRouter);
+
 const httpServer = createServer(app);
 const io = new Server(httpServer, {
   cors: { origin: "*", methods: ["GET", "POST"] },
 });
 
+// Handshake authentikáció: lejárt vagy hibás aláírású token esetén a kapcsolatot elutasítjuk.
+// Token nélkül csak fejlesztői módban engedjük tovább (ilyenkor az auth:authenticate azonosít).
+io.use((socket, next) => {
+  const token = socket.handshake.auth?.token;
+  if (!token) {
+    if (auth.devMode) return next();
+    return next(new Error('Authentikáció szükséges.'));
+  }
+  const result = auth.verifyToken(token);
+  if (!result.success) {
+    return next(new Error(result.message));
+  }
+  socket.data.userId = result.user.userId;
+  socket.data.username = result.user.username;
+  next();
+});
+
 // A kártyadefiníciók betöltése a szerver indításakor
 try {
   loadCardDefinitions();
@@ -52,56 +122,135 @@ const matchmakingManager = new MatchmakingManager(io, {
   aiEnabled: true,
   aiDelayMs: 500,  // Reduced from 5000ms to 500ms for faster bot matching in tests
   humanOnlyMaxWaitMs: 8000, // Szerver-vezérelt türelmi idő az ember-ember preferenciához
+  // Várólisták saját sakkórával (kezdő időbank és lépésenkénti jóváírás) és időtúllépési szabállyal
+  queues: {
+    blitz: {
+      timeControl: { initialTimeMs: 3 * 60 * 1000, incrementMs: 2 * 1000 },
+      timeoutPolicy: { type: 'strikes', maxConsecutiveTimeouts: 3 },
+    },
+    classical: {
+      timeControl: { initialTimeMs: 10 * 60 * 1000, incrementMs: 10 * 1000 },
+      timeoutPolicy: { type: 'auto_play' },
+    },
+    // Sorozat: best-of-3, minden játék 5 nyert körig tart
+    series: {
+      timeControl: { initialTimeMs: 5 * 60 * 1000, incrementMs: 3 * 1000 },
+      timeoutPolicy: { type: 'strikes', maxConsecutiveTimeouts: 3 },
+      setup: { matchFormat: { type: 'first_to', roundWins: 5 } },
+      bestOf: 3,
+    },
+    // Rangsorolt: csak emberek, hasonló értékszámúak; az eredmény az értékszámba számít
+    ranked: {
+      timeControl: { initialTimeMs: 5 * 60 * 1000, incrementMs: 5 * 1000 },
+      timeoutPolicy: { type: 'forfeit' },
+      ranked: { initialRatingWindow: 100, windowGrowthPerSecond: 10, maxRatingWindow: 500 },
+    },
+  },
+  defaultQueueId: 'classical',
+});
+
+// Privát szobák: a házigazda állítja be a játékot, a kóddal csatlakozó baráttal játszik
+const roomManager = new RoomManager(io, {
+  defaultTimeControl: { initialTimeMs: 10 * 60 * 1000, incrementMs: 10 * 1000 },
+  timeoutPolicy: { type: 'auto_play' },
 });
 
+// Visszavágó: a játék vége után ugyanazok a játékosok, ugyanazokkal a beállításokkal
+const rematchManager = new RematchManager(io, { windowMs: REMATCH_WINDOW_SECONDS * 1000 });
+
+// A lobby a futó játékokat a nézők számával együtt látja
+const broadcastLiveGames = () => {
+  io.emit('lobby:liveGames', {
+    games: [...activeGames.values()].map(game => ({
+      gameId: game.gameId,
+      players: game.getPlayers().map(p => ({ username: p.username, isBot: p.isBot })),
+      spectatorCount: game.getSpectatorCount(),
+    })),
+  });
+};
+
+// Rangsorolt játék után frissítjük az értékszámokat, és megírjuk a játékosoknak a változást
+const updateRatings = (game: GameManager) => {
+  const { winnerId } = game.getSummary();
+  ratingService.recordGame({ gameId: game.gameId, players: game.getPlayers(), winnerId, playedAt: Date.now() })
+    .then(changes => changes?.forEach(change => io.to(`user:${change.playerId}`).emit('rating:update', { gameId: game.gameId, ...change })))
+    .catch(error => console.error(`[Server] Failed to update ratings for game ${game.gameId}:`, error));
+};
+
 // --- A Rendszer Magja: Eseménykezelők ---
 
 /**
- * Ezt az eseményt a MatchmakingManager bocsátja ki, amikor talált egy meccset.
+ * Ezt az eseményt a MatchmakingManager (vagy egy privát szoba) bocsátja ki, amikor összeállt egy meccs.
  * Itt hozzuk létre az új GameManager példányt.
  */
-matchmakingManager.on('match-found', ({ players }: { players: PlayerInLobby[] }) => {
+const startMatch = (match: MatchFoundEvent) => {
+  const { players, queueId, queue } = match;
   const gameId = uuidv4(); // Vagy a GameManager generálja
-  const game = new GameManager(gameId, players, io, { turnTimeLimitSeconds: 600 }, (endedGameId) => {
+  const series = rematchManager.getSeriesForMatch(match);
+  const game = new GameManager(gameId, players, io, { timeControl: queue.timeControl, timeoutPolicy: queue.timeoutPolicy, setup: queue.setup, queueId, series, reconnectGracePeriodSeconds: RECONNECT_GRACE_PERIOD_SECONDS, spectatorDelaySeconds: SPECTATOR_DELAY_SECONDS, matchHistory }, (endedGameId) => {
     // Ez a callback lefut, amikor a játék véget ér.
     console.log(`[Server] Cleaning up game ${endedGameId}`);
     const gameToEnd = activeGames.get(endedGameId);
     if (gameToEnd) {
+      const settings = gameToEnd.getMatchSettings();
+      if (settings.queue.ranked) {
+        updateRatings(gameToEnd);
+      }
+      rematchManager.openWindow({ gameId: endedGameId, players: gameToEnd.getPlayers(), ...settings });
       gameToEnd.destroy();
       gameToEnd.getPlayers().forEach((player: { userId: PlayerId; username: string; isBot: boolean }) => playerToGameMap.delete(player.userId));
       activeGames.delete(endedGameId);
+      broadcastLiveGames();
     }
   });
 
   console.log(`[Server] Game created with ID: ${game.gameId}`);
   activeGames.set(game.gameId, game);
   players.forEach((player: { userId: PlayerId; username: string; isBot: boolean }) => playerToGameMap.set(player.userId, game.gameId));
-});
+  broadcastLiveGames();
+};
+matchmakingManager.on('match-found', startMatch);
+roomManager.on('match-found', startMatch);
+rematchManager.on('match-found', startMatch);
 
 io.on('connection', (socket: CustomSocket) => {
   console.log(`[Server] User connected: ${socket.id}`);
 
-  // Az authentikáció egyszerűsítve: a kliens küld egy user ID-t és nevet.
-  // Éles rendszerben itt JWT token validálás történne.
-  // Alapszintű, szerver-oldali szanálás a dev környezethez
-  const isValidId = (id: string) => /^[A-Za-z0-9_-]{3,32}$/.test(id);
-  const isValidUsername = (name: string) => /^[A-Za-z0-9 _\-.]{2,24}$/.test(name);
-  const sanitizeOrFallback = (value: string | undefined | null, fallback: string, validator: (v: string) => boolean) => {
-    if (!value || typeof value !== 'string') return fallback;
-    return validator(value) ? value : fallback;
-  };
-
-  socket.on('auth:authenticate', ({ userId, username }) => {
-    if (!userId || !username) {
-      socket.emit('auth:error', { message: 'Hiányzó userId vagy username.' });
+  // Az azonosítás a tokenből történik (handshake-kor vagy itt küldve).
+  // A kliens által küldött userId-t csak fejlesztői módban fogadjuk el, szanálva.
+  socket.on('auth:authenticate', (data?: { token?: string; userId?: string; username?: string }) => {
+    let identity: { userId: PlayerId; username: string };
+    if (data?.token) {
+      const result = auth.verifyToken(data.token);
+      if (!result.success) {
+        socket.emit('auth:error', { message: result.message });
+        return;
+      }
+      identity = result.user;
+    } else if (socket.data.userId && socket.data.username) {
+      // A handshake már hitelesítette a kapcsolatot
+      identity = { userId: socket.data.userId, username: socket.data.username };
+    } else if (auth.devMode) {
+      if (!data?.userId || !data?.username) {
+        socket.emit('auth:error', { message: 'Hiányzó userId vagy username.' });
+        return;
+      }
+      identity = {
+        userId: sanitizeOrFallback(data.userId, `guest-${socket.id.slice(0, 8)}`, isValidId) as PlayerId,
+        username: sanitizeOrFallback(data.username, 'Guest', isValidUsername),
+      };
+    } else {
+      socket.emit('auth:error', { message: 'Hiányzó token.' });
       return;
     }
-    const safeUserId = sanitizeOrFallback(userId, `guest-${socket.id.slice(0, 8)}`, isValidId) as PlayerId;
-    const safeUsername = sanitizeOrFallback(username, 'Guest', isValidUsername);
-    socket.data.userId = safeUserId;
-    socket.data.username = safeUsername;
-    socket.emit('auth:success', { userId: safeUserId, username: safeUsername });
-    console.log(`[Server] User ${safeUsername} (${safeUserId}) identified for socket ${socket.id}.`);
+
+    const { userId, username } = identity;
+    socket.data.userId = userId;
+    socket.data.username = username;
+    socket.emit('auth:success', { userId, username });
+    // Saját csatorna a játékon kívüli, személyes értesítésekhez (pl. visszavágó)
+    socket.join(`user:${userId}`);
+    console.log(`[Server] User ${username} (${userId}) identified for socket ${socket.id}.`);
 
     // Visszacsatlakozás kezelése
     const gameId = playerToGameMap.get(userId);
@@ -112,20 +261,37 @@ io.on('connection', (socket: CustomSocket) => {
     }
   });
 
-  // A kérést egyszerűen továbbítjuk a matchmakingManager-nek.
-  socket.on('matchmaking:join', (data?: { humanOnly?: boolean }) => {
+  // A kérést egyszerűen továbbítjuk a matchmakingManager-nek (a rangsorolt párosításhoz az értékszámmal).
+  socket.on('matchmaking:join', async (data?: { humanOnly?: boolean; queueId?: QueueId }) => {
     const { userId, username } = socket.data;
     if (!userId || !username) {
       socket.emit('error:auth', { message: 'Authentikáció szükséges.' });
       return;
     }
-    // Ellenőrizzük, hogy nincs-e már játékban
+    let rating: number;
+    try {
+      rating = (await ratingService.getRating(userId, username)).rating;
+    } catch (error) {
+      console.error(`[Server] Failed to load rating for ${userId}:`, error);
+      socket.emit('matchmaking:error', { message: 'Az értékszám nem tölthető be, próbáld újra később.' });
+      return;
+    }
+    // Ellenőrizzük, hogy nincs-e már játékban vagy privát szobában
     if (playerToGameMap.has(userId)) {
       socket.emit('matchmaking:error', { message: 'Már egy futó játékban vagy!' });
       return;
     }
+    if (roomManager.isInRoom(userId)) {
+      socket.emit('matchmaking:error', { message: 'Előbb hagyd el a privát szobát!' });
+      return;
+    }
+    rematchManager.cancel(userId);
     // A "humanOnly" csak preferencia; a szerver türelmi idő után felülírhatja
-    matchmakingManager.joinLobby(socket, userId, username, { humanOnly: !!data?.humanOnly });
+    matchmakingManager.joinLobby(socket, userId, username, {
+      humanOnly: !!data?.humanOnly,
+      queueId: typeof data?.queueId === 'string' ? data.queueId : undefined,
+      rating,
+    });
   });
 
   socket.on('matchmaking:cancel', () => {
@@ -134,20 +300,160 @@ io.on('connection', (socket: CustomSocket) => {
     }
   });
 
+  // Értékszám lekérdezése (alapból a sajátja)
+  socket.on('rating:get', async (data?: { playerId?: string }) => {
+    const playerId = typeof data?.playerId === 'string' ? data.playerId : socket.data.userId;
+    if (!playerId) {
+      socket.emit('error:auth', { message: 'Authentikáció szükséges.' });
+      return;
+    }
+    try {
+      socket.emit('rating:data', await ratingService.getRating(playerId));
+    } catch (error) {
+      console.error(`[Server] Failed to load rating for ${playerId}:`, error);
+      socket.emit('rating:error', { message: 'Az értékszám nem tölthető be.' });
+    }
+  });
+
+  // Ranglista lekérdezése lapozva (seasonId nélkül az összesített, 'current' esetén a futó szezoné)
+  socket.on('leaderboard:get', async (data?: { seasonId?: string; offset?: number; limit?: number }) => {
+    const paging = parseLeaderboardPaging(data?.offset, data?.limit);
+    if (!paging.success) {
+      socket.emit('leaderboard:error', { message: paging.message });
+      return;
+    }
+    const season = ratingService.resolveSeason(typeof data?.seasonId === 'string' ? data.seasonId : undefined);
+    if (!season.success) {
+      socket.emit('leaderboard:error', { message: season.message });
+      return;
+    }
+    try {
+      socket.emit('leaderboard:data', await ratingService.getLeaderboard(season.season, paging.offset, paging.limit));
+    } catch (error) {
+      console.error('[Server] Failed to load the leaderboard:', error);
+      socket.emit('leaderboard:error', { message: 'A ranglista nem tölthető be.' });
+    }
+  });
+
+  // --- Privát szobák ---
+  // Szobát csak játékon kívül lehet létrehozni vagy csatlakozni; a várólistáról ilyenkor kikerül
+  const canEnterRoom = (): boolean => {
+    const { userId, username } = socket.data;
+    if (!userId || !username) {
+      socket.emit('error:auth', { message: 'Authentikáció szükséges.' });
+      return false;
+    }
+    if (playerToGameMap.has(userId)) {
+      socket.emit('room:error', { message: 'Már egy futó játékban vagy!' });
+      return false;
+    }
+    matchmakingManager.leaveLobby(userId);
+    rematchManager.cancel(userId);
+    return true;
+  };
+
+  socket.on('room:create', (data?: { settings?: RoomSettingsInput }) => {
+    if (!canEnterRoom()) return;
+    roomManager.createRoom(socket, socket.data.userId!, socket.data.username!, data?.settings);
+  });
+
+  socket.on('room:join', (data?: { code?: string }) => {
+    if (!canEnterRoom()) return;
+    if (typeof data?.code !== 'string') {
+      socket.emit('room:error', { message: 'Hiányzó szobakód.' });
+      return;
+    }
+    roomManager.joinRoom(socket, socket.data.userId!, socket.data.username!, data.code);
+  });
+
+  socket.on('room:addBot', () => {
+    if (!socket.data.userId) return;
+    const result = roomManager.addBot(socket.data.userId);
+    if (!result.success) socket.emit('room:error', { message: result.message });
+  });
+
+  socket.on('room:ready', (data?: { ready?: boolean }) => {
+    if (!socket.data.userId) return;
+    roomManager.setReady(socket.data.userId, data?.ready !== false);
+  });
+
+  socket.on('room:leave', () => {
+    if (socket.data.userId) roomManager.leaveRoom(socket.data.userId);
+  });
+
+  // --- Visszavágó ---
+  // Csak a játék vége utáni ablakban, és csak ha a játékos közben nem kezdett mást
+  const handleRematch = (action: 'request' | 'accept') => {
+    const { userId } = socket.data;
+    if (!userId) {
+      socket.emit('error:auth', { message: 'Authentikáció szükséges.' });
+      return;
+    }
+    if (playerToGameMap.has(userId) || roomManager.isInRoom(userId)) {
+      socket.emit('game:error', { message: 'Már egy futó játékban vagy szobában vagy!' });
+      return;
+    }
+    const result = action === 'request'
+      ? rematchManager.requestRematch(userId, socket.id)
+      : rematchManager.acceptRematch(userId, socket.id);
+    if (!result.success) socket.emit('game:error', { message: result.message });
+  };
+
+  socket.on('game:rematchRequest', () => handleRematch('request'));
+  socket.on('game:rematchAccept', () => handleRematch('accept'));
+  socket.on('game:rematchDecline', () => {
+    if (socket.data.userId) rematchManager.cancel(socket.data.userId);
+  });
+
+  // Bármely hitelesített felhasználó nézőként csatlakozhat egy futó játékhoz (csak olvasható)
+  socket.on('game:spectate', (data?: { gameId?: string }) => {
+    const { userId } = socket.data;
+    if (!userId) {
+      socket.emit('error:auth', { message: 'Authentikáció szükséges.' });
+      return;
+    }
+    const game = typeof data?.gameId === 'string' ? activeGames.get(data.gameId) : undefined;
+    if (!game) {
+      socket.emit('game:error', { message: 'A játék nem található.' });
+      return;
+    }
+    // Egyszerre csak egy játékot nézhet
+    activeGames.forEach(other => { if (other !== game) other.removeSpectator(userId); });
+    const result = game.addSpectator(userId, socket);
+    if (!result.success) {
+      socket.emit('game:error', { message: result.message });
+      return;
+    }
+    broadcastLiveGames();
+  });
+
+  socket.on('game:stopSpectating', () => {
+    const { userId } = socket.data;
+    if (!userId) return;
+    let removed = false;
+    activeGames.forEach(game => { removed = game.removeSpectator(userId, socket.id) || removed; });
+    if (removed) broadcastLiveGames();
+  });
+
   // A disconnect esemény kezelése sokkal robusztusabb lett.
   socket.on('disconnect', () => {
     console.log(`[Server] User disconnected: ${socket.id}`);
     const { userId } = socket.data;
     if (!userId) return;
 
-    // Megpróbáljuk kivenni a lobbyból
+    // Megpróbáljuk kivenni a lobbyból, a privát szobájából és a nézők közül
     matchmakingManager.leaveLobby(userId);
+    roomManager.leaveRoom(userId);
+    rematchManager.cancel(userId);
+    let wasSpectating = false;
+    activeGames.forEach(game => { wasSpectating = game.removeSpectator(userId, socket.id) || wasSpectating; });
+    if (wasSpectating) broadcastLiveGames();
 
     // Ha játékban volt, értesítjük a megfelelő GameManager-t
     const gameId = playerToGameMap.get(userId);
     const ongoingGame = gameId ? activeGames.get(gameId) : null;
     if (ongoingGame) {
-      ongoingGame.handlePlayerDisconnect(userId);
+      ongoingGame.handlePlayerDisconnect(userId, socket.id);
     }
   });
 });
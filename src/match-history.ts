@@ -0,0 +1,131 @@
+// ======================================================================
+// server/match-history.ts
+// Befejezett meccsek tartós tárolása
+// Felelőssége: A lezárt játékok adatainak (résztvevők, seed, végállapot,
+// eseménynapló) mentése és visszakeresése játékos szerint.
+// ======================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GameEvent, GameStatus, IGameState, PlayerId } from '../shared/interfaces';
+
+/**
+ * Egy meccs résztvevője a mentés pillanatában.
+ */
+export interface MatchParticipant {
+  userId: PlayerId;
+  username: string;
+  isBot: boolean;
+}
+
+/**
+ * Egy befejezett meccs teljes rekordja. A seed és az eseménynapló alapján
+ * a meccs a replay() segítségével lépésről lépésre újrajátszható.
+ */
+export interface MatchRecord {
+  gameId: string;
+  participants: MatchParticipant[];
+  seed: number;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  winnerId: PlayerId | null;
+  gameStatus: GameStatus;
+  endReason: string;
+  finalState: IGameState;
+  events: GameEvent[];
+}
+
+/**
+ * A meccstörténet tárolójának interfésze. Új háttértár (pl. adatbázis)
+ * ennek implementálásával köthető be a szerverbe.
+ */
+export interface MatchHistoryStore {
+  saveMatch(record: MatchRecord): Promise<void>;
+  getMatch(gameId: string): Promise<MatchRecord | null>;
+  /** A játékos meccsei, a legfrissebbel kezdve. */
+  getMatchesByPlayer(playerId: PlayerId, limit?: number): Promise<MatchRecord[]>;
+}
+
+const byEndedAtDesc = (a: MatchRecord, b: MatchRecord) => b.endedAt - a.endedAt;
+
+/**
+ * Memóriában tartott tároló: tesztekhez és perzisztencia nélküli futtatáshoz.
+ */
+export class InMemoryMatchHistoryStore implements MatchHistoryStore {
+  private records = new Map<string, MatchRecord>();
+
+  public async saveMatch(record: MatchRecord): Promise<void> {
+    this.records.set(record.gameId, record);
+  }
+
+  public async getMatch(gameId: string): Promise<MatchRecord | null> {
+    return this.records.get(gameId) ?? null;
+  }
+
+  public async getMatchesByPlayer(playerId: PlayerId, limit?: number): Promise<MatchRecord[]> {
+    const matches = [...this.records.values()]
+      .filter(r => r.participants.some(p => p.userId === playerId))
+      .sort(byEndedAtDesc);
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+}
+
+/**
+ * Fájl alapú tároló: soronként egy JSON rekord (JSON Lines), így a mentés
+ * mindig csak hozzáfűzés, és egy félbeszakadt írás legfeljebb az utolsó sort rontja el.
+ */
+export class FileMatchHistoryStore implements MatchHistoryStore {
+  private filePath: string;
+  // Az írásokat sorba fűzzük, hogy a párhuzamosan véget érő meccsek sorai ne keveredjenek
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public saveMatch(record: MatchRecord): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+    });
+    // Egy sikertelen írás ne akassza meg a későbbieket
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  public async getMatch(gameId: string): Promise<MatchRecord | null> {
+    const records = await this.readAll();
+    return records.find(r => r.gameId === gameId) ?? null;
+  }
+
+  public async getMatchesByPlayer(playerId: PlayerId, limit?: number): Promise<MatchRecord[]> {
+    const records = await this.readAll();
+    const matches = records
+      .filter(r => r.participants.some(p => p.userId === playerId))
+      .sort(byEndedAtDesc);
+    return limit === undefined ? matches : matches.slice(0, limit);
+  }
+
+  private async readAll(): Promise<MatchRecord[]> {
+    await this.writeQueue;
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: MatchRecord[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line) as MatchRecord);
+      } catch {
+        console.warn(`[MatchHistory] Skipping corrupt line ${index + 1} in ${this.filePath}`);
+      }
+    });
+    return records;
+  }
+}
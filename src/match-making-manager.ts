@@ -2,11 +2,57 @@
 // server/matchmakingManager.ts
 // Server-side Matchmaking Manager - Refaktorált verzió
 // Felelőssége: A lobby kezelése és meccsek összeállítása.
+// A játékosok várólistákra (pl. blitz, klasszikus) jelentkeznek; meccs csak
+// azonos várólistán várakozók között jön létre, a várólista beállításaival.
+// Rangsorolt várólistán csak emberek játszanak, és csak a várakozással
+// táguló értékszám-ablakon belüli játékosok kerülnek össze.
 // ======================================================================
 
 import { Server, Socket } from 'socket.io';
 import { EventEmitter } from 'events';
-import { PlayerId } from '../shared/interfaces';
+import { IGameSetup, ITimeControl, PlayerId } from '../shared/interfaces';
+
+export type QueueId = string;
+
+/**
+ * Mi történjen, ha a soron lévő játékos ideje lejár:
+ * - 'forfeit': azonnal elveszíti a játékot
+ * - 'auto_play': helyette a bot stratégiája lép
+ * - 'random_metric': helyette egy véletlen autós kártya kerül le véletlen metrikával
+ * - 'strikes': a bot lép helyette, de zsinórban maxConsecutiveTimeouts időtúllépés után veszít
+ */
+export type TimeoutPolicy =
+  | { type: 'forfeit' }
+  | { type: 'auto_play' }
+  | { type: 'random_metric' }
+  | { type: 'strikes'; maxConsecutiveTimeouts: number };
+
+/**
+ * Rangsorolt várólista: két játékos akkor kerül össze, ha az értékszámuk
+ * különbsége mindkettőjük ablakán belül van. Az ablak a várakozással tágul.
+ */
+export interface RankedQueueConfig {
+  initialRatingWindow: number;     // Az ablak (± pont) a csatlakozáskor
+  windowGrowthPerSecond: number;   // Várakozási másodpercenként ennyivel tágul
+  maxRatingWindow: number;
+}
+
+/**
+ * Egy várólista beállításai: az itt induló játékok ezekkel a paraméterekkel futnak.
+ */
+export interface QueueConfig {
+  timeControl: ITimeControl;
+  timeoutPolicy: TimeoutPolicy;
+  setup?: IGameSetup; // A gameInit.json értékeit felülíró beállítások (pl. pakliméret, játékformátum)
+  bestOf?: number;    // Best-of-N sorozat (páratlan N): a visszavágók a sorozat eldőltéig kérhetők
+  ranked?: RankedQueueConfig; // Ha meg van adva, a várólista rangsorolt (és a játékai értékszámot érnek)
+}
+
+/**
+ * Best-of-N sorozat csak páratlan N-nel lehet, különben döntetlenre is végződhetne
+ * nyert játékok alapján.
+ */
+export const isValidBestOf = (bestOf: number): boolean => Number.isInteger(bestOf) && bestOf >= 1 && bestOf % 2 === 1;
 
 /**
  * A lobbyban várakozó játékosokat leíró interfész.
@@ -18,8 +64,51 @@ export interface PlayerInLobby {
   joinedAt: number;
   isBot: boolean;
   humanOnly?: boolean;
+  queueId: QueueId;
+  rating?: number; // Rangsorolt várólistán a párosítás alapja
+}
+
+/**
+ * A 'match-found' esemény tartalma.
+ */
+export interface MatchFoundEvent {
+  players: PlayerInLobby[];
+  queueId: QueueId;
+  queue: QueueConfig;
+  seriesId?: string; // Visszavágónál a sorozat azonosítója
 }
 
+// A rangsorolt várólista ennyi időnként nézi újra a párosítást, ahogy az ablakok tágulnak
+const RANKED_RECHECK_INTERVAL_MS = 1000;
+
+/**
+ * A játékos értékszám-ablaka (± pont) az eddigi várakozása alapján.
+ */
+export const getRatingWindow = (ranked: RankedQueueConfig, waitedMs: number): number =>
+  Math.min(ranked.initialRatingWindow + ranked.windowGrowthPerSecond * (Math.max(0, waitedMs) / 1000), ranked.maxRatingWindow);
+
+/**
+ * A legrégebben várakozó játékosnak keres ellenfelet: azt, akinek az értékszáma
+ * a legközelebb van hozzá, és a különbség mindkettőjük ablakán belül van.
+ */
+export const findRankedPair = (players: PlayerInLobby[], ranked: RankedQueueConfig, now: number): [PlayerInLobby, PlayerInLobby] | null => {
+  const waiting = [...players].sort((a, b) => a.joinedAt - b.joinedAt);
+  for (let i = 0; i < waiting.length; i++) {
+    const player = waiting[i];
+    const playerWindow = getRatingWindow(ranked, now - player.joinedAt);
+    let best: PlayerInLobby | null = null;
+    for (const candidate of waiting.slice(i + 1)) {
+      const distance = Math.abs((player.rating ?? 0) - (candidate.rating ?? 0));
+      const window = Math.min(playerWindow, getRatingWindow(ranked, now - candidate.joinedAt));
+      if (distance <= window && (!best || distance < Math.abs((player.rating ?? 0) - (best.rating ?? 0)))) {
+        best = candidate;
+      }
+    }
+    if (best) return [player, best];
+  }
+  return null;
+};
+
 /**
  * A matchmaking működését szabályozó konfigurációs opciók.
  */
@@ -32,6 +121,8 @@ export interface MatchmakingConfig {
    * Prevents a single client from indefinitely blocking matches by requesting human-only.
    */
   humanOnlyMaxWaitMs: number;
+  queues: Record<QueueId, QueueConfig>;
+  defaultQueueId: QueueId; // Ha a kliens nem választ várólistát
 }
 
 /**
@@ -44,13 +135,22 @@ class MatchmakingManager extends EventEmitter {
 
   // Állapotok: már csak a lobbyhoz kapcsolódó adatok.
   private playersInLobby = new Map<PlayerId, PlayerInLobby>();
-  private aiSpawnTimer: ReturnType<typeof setTimeout> | null = null;
+  private aiSpawnTimers = new Map<QueueId, ReturnType<typeof setTimeout>>();
+  private rankedRecheckTimers = new Map<QueueId, ReturnType<typeof setTimeout>>();
   private botCounter = 0;
 
   constructor(io: Server, config: MatchmakingConfig) {
     super();
     this.io = io;
     this.config = config;
+    if (!config.queues[config.defaultQueueId]) {
+      throw new Error(`Unknown default matchmaking queue: ${config.defaultQueueId}`);
+    }
+    Object.entries(config.queues).forEach(([queueId, queue]) => {
+      if (queue.bestOf !== undefined && !isValidBestOf(queue.bestOf)) {
+        throw new Error(`Invalid bestOf for matchmaking queue ${queueId}: ${queue.bestOf} (must be a positive odd integer)`);
+      }
+    });
     this.log('MatchmakingManager initialized');
   }
 
@@ -61,12 +161,17 @@ class MatchmakingManager extends EventEmitter {
   /**
    * Egy játékos csatlakozik a várólistához.
    */
-  public joinLobby(socket: Socket, userId: PlayerId, username: string, options?: { humanOnly?: boolean }) {
+  public joinLobby(socket: Socket, userId: PlayerId, username: string, options?: { humanOnly?: boolean; queueId?: QueueId; rating?: number }) {
     // A validációk (pl. már játékban van-e) a fő szerver fájl felelőssége lesz.
     if (this.playersInLobby.has(userId)) {
       socket.emit('matchmaking:error', { message: 'Már a lobbyban vagy!' });
       return;
     }
+    const queueId = options?.queueId ?? this.config.defaultQueueId;
+    if (!Object.prototype.hasOwnProperty.call(this.config.queues, queueId)) {
+      socket.emit('matchmaking:error', { message: 'Ismeretlen várólista.' });
+      return;
+    }
 
     const playerData: PlayerInLobby = {
       userId,
@@ -75,14 +180,16 @@ class MatchmakingManager extends EventEmitter {
       joinedAt: Date.now(),
       isBot: false,
       humanOnly: !!options?.humanOnly,
+      queueId,
+      rating: options?.rating,
     };
 
     this.playersInLobby.set(userId, playerData);
-    this.log(`Player ${username} joined lobby. Total players: ${this.playersInLobby.size}`);
+    this.log(`Player ${username} joined queue ${queueId}. Total players: ${this.playersInLobby.size}`);
 
-    socket.emit('matchmaking:joined', { message: 'Sikeresen csatlakoztál a lobbyba!' });
+    socket.emit('matchmaking:joined', { message: 'Sikeresen csatlakoztál a lobbyba!', queueId });
     this.broadcastLobbyUpdate();
-    this.checkForMatch();
+    this.checkForMatch(queueId);
   }
 
   /**
@@ -91,25 +198,51 @@ class MatchmakingManager extends EventEmitter {
   public leaveLobby(userId: PlayerId) {
     if (!this.playersInLobby.has(userId)) return;
 
-    const player = this.playersInLobby.get(userId);
+    const player = this.playersInLobby.get(userId)!;
     this.playersInLobby.delete(userId);
-    this.log(`Player ${player?.username} left lobby. Total players: ${this.playersInLobby.size}`);
+    this.log(`Player ${player.username} left lobby. Total players: ${this.playersInLobby.size}`);
     
-    // Ha kiürült a lobby, leállítjuk az AI időzítőt.
-    if (this.playersInLobby.size === 0 && this.aiSpawnTimer) {
-        clearTimeout(this.aiSpawnTimer);
-        this.aiSpawnTimer = null;
+    // Ha kiürült a várólista, leállítjuk az AI időzítőjét.
+    if (this.getPlayersInQueue(player.queueId).length === 0) {
+        this.clearAISpawnTimer(player.queueId);
+    }
+    // Egyedül már nincs kit párosítani a rangsorolt várólistán
+    if (this.getPlayersInQueue(player.queueId).length < this.config.maxPlayersPerMatch) {
+        this.clearRankedRecheckTimer(player.queueId);
     }
     this.broadcastLobbyUpdate();
   }
+
+  // Az adott várólistán várakozó játékosok
+  private getPlayersInQueue(queueId: QueueId): PlayerInLobby[] {
+    return Array.from(this.playersInLobby.values()).filter(p => p.queueId === queueId);
+  }
+
+  private clearAISpawnTimer(queueId: QueueId) {
+    const timer = this.aiSpawnTimers.get(queueId);
+    if (timer) {
+      clearTimeout(timer);
+      this.aiSpawnTimers.delete(queueId);
+    }
+  }
   
+  private clearRankedRecheckTimer(queueId: QueueId) {
+    const timer = this.rankedRecheckTimers.get(queueId);
+    if (timer) {
+      clearTimeout(timer);
+      this.rankedRecheckTimers.delete(queueId);
+    }
+  }
+
   /**
    * Elindítja az időzítőt, ami egy botot ad a lobbyhoz, ha nincs elég játékos.
+   * Rangsorolt várólistán nincs bot.
    */
-  private scheduleAISpawn() {
-    if (!this.config.aiEnabled || this.aiSpawnTimer) return;
+  private scheduleAISpawn(queueId: QueueId) {
+    if (!this.config.aiEnabled || this.aiSpawnTimers.has(queueId) || this.config.queues[queueId].ranked) return;
     
-    const humans = Array.from(this.playersInLobby.values()).filter(p => !p.isBot);
+    const queuePlayers = this.getPlayersInQueue(queueId);
+    const humans = queuePlayers.filter(p => !p.isBot);
     const humanPlayerCount = humans.length;
     const now = Date.now();
 
@@ -125,18 +258,19 @@ class MatchmakingManager extends EventEmitter {
       // Grace expired: allow AI fallback
     }
 
-    if (humanPlayerCount > 0 && this.playersInLobby.size < this.config.maxPlayersPerMatch) {
-      this.log(`Scheduling AI spawn in ${this.config.aiDelayMs}ms`);
-      this.aiSpawnTimer = setTimeout(() => this.spawnAIBot(), this.config.aiDelayMs);
+    if (humanPlayerCount > 0 && queuePlayers.length < this.config.maxPlayersPerMatch) {
+      this.log(`Scheduling AI spawn for queue ${queueId} in ${this.config.aiDelayMs}ms`);
+      this.aiSpawnTimers.set(queueId, setTimeout(() => this.spawnAIBot(queueId), this.config.aiDelayMs));
     }
   }
   
   /**
    * Létrehoz egy bot játékost és hozzáadja a lobbyhoz.
    */
-  private spawnAIBot() {
-    this.aiSpawnTimer = null;
-    if (this.playersInLobby.size === 0 || this.playersInLobby.size >= this.config.maxPlayersPerMatch) return;
+  private spawnAIBot(queueId: QueueId) {
+    this.aiSpawnTimers.delete(queueId);
+    const queueSize = this.getPlayersInQueue(queueId).length;
+    if (queueSize === 0 || queueSize >= this.config.maxPlayersPerMatch) return;
 
     const botId = `bot-${++this.botCounter}`;
     const botData: PlayerInLobby = {
@@ -144,34 +278,37 @@ class MatchmakingManager extends EventEmitter {
       username: `AI Bot ${this.botCounter}`,
       socketId: 'bot-socket', // Nincs valós socketje
       joinedAt: Date.now(),
-      isBot: true
+      isBot: true,
+      queueId,
     };
 
     this.playersInLobby.set(botId, botData);
-    this.log(`AI Bot spawned: ${botData.username}`);
+    this.log(`AI Bot spawned in queue ${queueId}: ${botData.username}`);
     
     this.broadcastLobbyUpdate();
-    this.checkForMatch();
+    this.checkForMatch(queueId);
   }
 
   /**
-   * Ellenőrzi, hogy van-e elég játékos egy meccs indításához.
+   * Ellenőrzi, hogy van-e elég játékos egy meccs indításához az adott várólistán.
    * Ha igen, eltávolítja őket a lobbyból és kibocsát egy 'match-found' eseményt.
    */
-  private checkForMatch() {
-    if (this.playersInLobby.size < this.config.maxPlayersPerMatch) {
-      this.scheduleAISpawn(); // Ha még nincs meccs, újrapróbáljuk időzíteni a botot.
+  private checkForMatch(queueId: QueueId) {
+    const { ranked } = this.config.queues[queueId];
+    if (ranked) {
+      this.checkForRankedMatch(queueId, ranked);
+      return;
+    }
+    const lobbyArr = this.getPlayersInQueue(queueId);
+    if (lobbyArr.length < this.config.maxPlayersPerMatch) {
+      this.scheduleAISpawn(queueId); // Ha még nincs meccs, újrapróbáljuk időzíteni a botot.
       return;
     }
 
     // Leállítjuk az AI időzítőt, mert találtunk meccset.
-    if (this.aiSpawnTimer) {
-        clearTimeout(this.aiSpawnTimer);
-        this.aiSpawnTimer = null;
-    }
+    this.clearAISpawnTimer(queueId);
 
     // Preferáljuk a két emberi játékost, ha elérhető
-    const lobbyArr = Array.from(this.playersInLobby.values());
     const humans = lobbyArr.filter(p => !p.isBot).sort((a, b) => a.joinedAt - b.joinedAt);
     const bots = lobbyArr.filter(p => p.isBot).sort((a, b) => a.joinedAt - b.joinedAt);
     let playersForMatch: PlayerInLobby[] = [];
@@ -180,29 +317,57 @@ class MatchmakingManager extends EventEmitter {
     } else {
       playersForMatch = humans.concat(bots).slice(0, this.config.maxPlayersPerMatch);
     }
+    this.emitMatch(queueId, playersForMatch);
+
+    // Ha maradtak még játékosok a várólistán, újra ellenőrizzük, hátha újabb meccs is indítható.
+    if (this.getPlayersInQueue(queueId).length >= this.config.maxPlayersPerMatch) {
+      this.checkForMatch(queueId);
+    }
+  }
+  
+  /**
+   * Rangsorolt várólista: a legjobb, ablakon belüli párokat indítja el. Ha valaki
+   * pár nélkül marad, később újra próbálkozunk, mert az ablakok közben tágulnak.
+   */
+  private checkForRankedMatch(queueId: QueueId, ranked: RankedQueueConfig) {
+    this.clearRankedRecheckTimer(queueId);
+
+    let pair = findRankedPair(this.getPlayersInQueue(queueId), ranked, Date.now());
+    while (pair) {
+      this.emitMatch(queueId, pair);
+      pair = findRankedPair(this.getPlayersInQueue(queueId), ranked, Date.now());
+    }
+
+    if (this.getPlayersInQueue(queueId).length >= this.config.maxPlayersPerMatch) {
+      this.rankedRecheckTimers.set(queueId, setTimeout(() => this.checkForMatch(queueId), RANKED_RECHECK_INTERVAL_MS));
+    }
+  }
+
+  // Kiveszi a játékosokat a lobbyból, és kibocsátja a 'match-found' eseményt
+  private emitMatch(queueId: QueueId, playersForMatch: PlayerInLobby[]) {
     playersForMatch.forEach(player => this.playersInLobby.delete(player.userId));
-    
-    this.log('Match found! Emitting event for players:', playersForMatch.map(p => p.username));
+
+    this.log(`Match found in queue ${queueId}! Emitting event for players:`, playersForMatch.map(p => p.username));
 
     // A kulcsfontosságú változás: eseményt bocsátunk ki ahelyett, hogy magunk kezelnénk a játékot.
-    this.emit('match-found', { players: playersForMatch });
+    const matchFound: MatchFoundEvent = { players: playersForMatch, queueId, queue: this.config.queues[queueId] };
+    this.emit('match-found', matchFound);
 
     this.broadcastLobbyUpdate();
-
-    // Ha maradtak még játékosok a lobbyban, újra ellenőrizzük, hátha újabb meccs is indítható.
-    if (this.playersInLobby.size >= this.config.maxPlayersPerMatch) {
-      this.checkForMatch();
-    }
   }
-  
+
   /**
    * Kiküldi a lobby aktuális állapotát minden kliensnek.
    */
   private broadcastLobbyUpdate() {
     const lobbyData = Array.from(this.playersInLobby.values());
     this.io.emit('lobby:update', { 
-      players: lobbyData.map(p => ({ username: p.username, isBot: p.isBot })),
+      players: lobbyData.map(p => ({ username: p.username, isBot: p.isBot, queueId: p.queueId })),
       playerCount: lobbyData.length,
+      queues: Object.keys(this.config.queues).map(queueId => ({
+        queueId,
+        playerCount: lobbyData.filter(p => p.queueId === queueId).length,
+      })),
     });
   }
 }
@@ -0,0 +1,412 @@
+// ======================================================================
+// server/rating-service.ts
+// Játékerősség (Glicko) értékelés
+// Felelőssége: A rangsorolt játékok eredményéből a játékosok értékszámának
+// és bizonytalanságának (RD) frissítése, valamint ezek tárolása.
+// Botok elleni játék nem számít bele az értékszámba.
+// Az összesített értékszám mellett szezononként külön értékszám is fut,
+// amely szezonváltáskor az előző szezonból részlegesen visszaállítva indul.
+// Ezekből állnak össze a (lapozható) ranglisták.
+// ======================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlayerId } from '../shared/interfaces';
+import { DEFAULT_SEASON_RULES, Season, SeasonRules, getPreviousSeason, getSeasonAt, softResetRating } from './seasons';
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+const MIN_DEVIATION = 30;
+// Játék nélkül naponta ennyivel nő a bizonytalanság (kb. 100 nap alatt éri el újra a kezdőértéket)
+const DEVIATION_GROWTH_PER_DAY = 35;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const Q = Math.log(10) / 400;
+
+// A tárolóban az összesített és a szezononkénti értékszámok külön hatókörben vannak
+export type RatingScope = string;
+export const GLOBAL_RATING_SCOPE: RatingScope = 'global';
+export const seasonScope = (seasonId: string): RatingScope => `season:${seasonId}`;
+
+/**
+ * Egy játékos értékszáma és statisztikái.
+ */
+export interface PlayerRating {
+  playerId: PlayerId;
+  username: string;
+  rating: number;
+  deviation: number; // Rating deviation (RD): minél kisebb, annál biztosabb az értékszám
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  lastPlayedAt: number | null;
+}
+
+/**
+ * Egy játékos értékszámának változása egy játék után. A season a szezonbeli
+ * értékszám változása, ha a játék egy szezonon belül zajlott.
+ */
+export interface RatingChange {
+  playerId: PlayerId;
+  before: number;
+  after: number;
+  delta: number;
+  deviation: number;
+  season?: {
+    seasonId: string;
+    before: number;
+    after: number;
+    delta: number;
+    placementGamesRemaining: number; // Ennyi játék után kerül fel a szezon ranglistájára
+  };
+}
+
+/**
+ * Egy sor a ranglistán.
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: PlayerId;
+  username: string;
+  rating: number;
+  deviation: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/**
+ * A ranglista egy oldala (seasonId = null: összesített ranglista).
+ */
+export interface LeaderboardPage {
+  seasonId: string | null;
+  total: number;
+  offset: number;
+  limit: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Egy befejezett játék eredménye az értékeléshez (winnerId = null: döntetlen).
+ */
+export interface RatedGameResult {
+  gameId: string;
+  players: { userId: PlayerId; username: string; isBot: boolean }[];
+  winnerId: PlayerId | null;
+  playedAt: number;
+}
+
+/**
+ * Az értékszámok tárolójának interfésze (a MatchHistoryStore mintájára).
+ * A hatókör nélküli hívások az összesített értékszámokra vonatkoznak.
+ */
+export interface RatingStore {
+  getRating(playerId: PlayerId, scope?: RatingScope): Promise<PlayerRating | null>;
+  getAllRatings(scope?: RatingScope): Promise<PlayerRating[]>;
+  saveRatings(ratings: PlayerRating[], scope?: RatingScope): Promise<void>;
+}
+
+export const createInitialRating = (playerId: PlayerId, username: string): PlayerRating => ({
+  playerId,
+  username,
+  rating: INITIAL_RATING,
+  deviation: INITIAL_DEVIATION,
+  gamesPlayed: 0,
+  wins: 0,
+  losses: 0,
+  draws: 0,
+  lastPlayedAt: null,
+});
+
+/**
+ * A bizonytalanság a legutóbbi játék óta eltelt idővel nő (a kezdőértékig).
+ */
+export const getCurrentDeviation = (rating: PlayerRating, now: number): number => {
+  if (rating.lastPlayedAt === null) return rating.deviation;
+  const days = Math.max(0, now - rating.lastPlayedAt) / DAY_MS;
+  return Math.min(Math.sqrt(rating.deviation ** 2 + DEVIATION_GROWTH_PER_DAY ** 2 * days), INITIAL_DEVIATION);
+};
+
+const g = (deviation: number) => 1 / Math.sqrt(1 + (3 * Q ** 2 * deviation ** 2) / Math.PI ** 2);
+
+/**
+ * Glicko frissítés egyetlen játék alapján (a játék egy értékelési időszak).
+ * A score a játékos eredménye: 1 = győzelem, 0.5 = döntetlen, 0 = vereség.
+ */
+export const calculateGlickoUpdate = (
+  player: { rating: number; deviation: number },
+  opponent: { rating: number; deviation: number },
+  score: number
+): { rating: number; deviation: number } => {
+  const gOpponent = g(opponent.deviation);
+  const expected = 1 / (1 + 10 ** (-gOpponent * (player.rating - opponent.rating) / 400));
+  const dSquared = 1 / (Q ** 2 * gOpponent ** 2 * expected * (1 - expected));
+  const precision = 1 / player.deviation ** 2 + 1 / dSquared;
+  return {
+    rating: player.rating + (Q / precision) * gOpponent * (score - expected),
+    deviation: Math.max(Math.sqrt(1 / precision), MIN_DEVIATION),
+  };
+};
+
+export const DEFAULT_LEADERBOARD_LIMIT = 20;
+export const MAX_LEADERBOARD_LIMIT = 100;
+
+/**
+ * A ranglista lapozási paramétereinek ellenőrzése (a REST és a socketes lekérdezés közös).
+ * A túl nagy limit a maximumra csökken.
+ */
+export const parseLeaderboardPaging = (offsetInput: unknown, limitInput: unknown): { success: true; offset: number; limit: number } | { success: false; message: string } => {
+  const offset = offsetInput === undefined ? 0 : Number(offsetInput);
+  const limit = limitInput === undefined ? DEFAULT_LEADERBOARD_LIMIT : Number(limitInput);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { success: false, message: 'The offset must be a non-negative integer.' };
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { success: false, message: 'The limit must be a positive integer.' };
+  }
+  return { success: true, offset, limit: Math.min(limit, MAX_LEADERBOARD_LIMIT) };
+};
+
+const toChange = (before: PlayerRating, after: PlayerRating) => ({
+  before: Math.round(before.rating),
+  after: Math.round(after.rating),
+  delta: Math.round(after.rating) - Math.round(before.rating),
+});
+
+// A ranglista sorrendje: értékszám, azonos értéknél a több játék, végül az azonosító
+const byRatingDesc = (a: PlayerRating, b: PlayerRating) =>
+  b.rating - a.rating || b.gamesPlayed - a.gamesPlayed || a.playerId.localeCompare(b.playerId);
+
+/**
+ * Az értékszámok lekérdezése és frissítése a játékok eredménye alapján.
+ */
+export class RatingService {
+  private store: RatingStore;
+  private seasons: Season[];
+  private seasonRules: SeasonRules;
+  // A frissítéseket sorba fűzzük, hogy két egyszerre véget érő játék ne írja felül egymás eredményét
+  private updateQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(store: RatingStore, options: { seasons?: Season[]; seasonRules?: SeasonRules } = {}) {
+    this.store = store;
+    this.seasons = options.seasons ?? [];
+    this.seasonRules = options.seasonRules ?? DEFAULT_SEASON_RULES;
+  }
+
+  /**
+   * A játékos értékszáma; aki még nem játszott rangsorolt játékot, a kezdőértéket kapja.
+   */
+  public async getRating(playerId: PlayerId, username: string = playerId): Promise<PlayerRating> {
+    return (await this.store.getRating(playerId)) ?? createInitialRating(playerId, username);
+  }
+
+  /**
+   * A játékos szezonbeli értékszáma; aki a szezonban még nem játszott, az előző
+   * szezonból (vagy az összesítettből) részlegesen visszaállított értékkel indul.
+   */
+  public async getSeasonRating(playerId: PlayerId, season: Season, username: string = playerId): Promise<PlayerRating> {
+    return (await this.store.getRating(playerId, seasonScope(season.id))) ?? this.getSeasonStartRating(playerId, username, season);
+  }
+
+  public getAllRatings(): Promise<PlayerRating[]> {
+    return this.store.getAllRatings();
+  }
+
+  public getSeasons(): Season[] {
+    return this.seasons;
+  }
+
+  /**
+   * A kért szezon: azonosító, 'current' (az éppen futó), vagy megadás nélkül null (összesített).
+   */
+  public resolveSeason(seasonId: string | undefined, now: number = Date.now()): { success: true; season: Season | null } | { success: false; message: string } {
+    if (seasonId === undefined) return { success: true, season: null };
+    const season = seasonId === 'current' ? getSeasonAt(this.seasons, now) : this.seasons.find(s => s.id === seasonId) ?? null;
+    if (!season) {
+      return { success: false, message: seasonId === 'current' ? 'Jelenleg nincs futó szezon.' : 'Ismeretlen szezon.' };
+    }
+    return { success: true, season };
+  }
+
+  /**
+   * A ranglista egy oldala. A szezon ranglistáján csak a besorolójátékokat
+   * már lejátszó játékosok szerepelnek.
+   */
+  public async getLeaderboard(season: Season | null, offset: number, limit: number): Promise<LeaderboardPage> {
+    const minGames = season ? this.seasonRules.placementGames : 1;
+    const ranked = (await this.store.getAllRatings(season ? seasonScope(season.id) : GLOBAL_RATING_SCOPE))
+      .filter(rating => rating.gamesPlayed >= minGames)
+      .sort(byRatingDesc);
+
+    return {
+      seasonId: season?.id ?? null,
+      total: ranked.length,
+      offset,
+      limit,
+      entries: ranked.slice(offset, offset + limit).map((rating, index) => ({
+        rank: offset + index + 1,
+        playerId: rating.playerId,
+        username: rating.username,
+        rating: Math.round(rating.rating),
+        deviation: Math.round(rating.deviation),
+        gamesPlayed: rating.gamesPlayed,
+        wins: rating.wins,
+        losses: rating.losses,
+        draws: rating.draws,
+      })),
+    };
+  }
+
+  /**
+   * Frissíti a két játékos értékszámát a játék eredménye alapján (az összesítettet
+   * és, ha a játék egy szezonban zajlott, a szezonbelit is).
+   * Bot részvételével játszott játéknál nem történik frissítés (null).
+   */
+  public recordGame(result: RatedGameResult): Promise<RatingChange[] | null> {
+    const update = this.updateQueue.then(() => this.applyGame(result));
+    this.updateQueue = update.catch(() => undefined);
+    return update;
+  }
+
+  private async applyGame({ players, winnerId, playedAt }: RatedGameResult): Promise<RatingChange[] | null> {
+    if (players.length !== 2 || players.some(p => p.isBot)) return null;
+
+    // A szezon kezdőértéke az összesítettből is jöhet, ezért mindkettőt a frissítés előtt olvassuk be
+    const season = getSeasonAt(this.seasons, playedAt);
+    const before = await Promise.all(players.map(p => this.getRating(p.userId, p.username)));
+    const seasonBefore = season ? await Promise.all(players.map(p => this.getSeasonRating(p.userId, season, p.username))) : null;
+
+    const after = this.rateGame(before, players, winnerId, playedAt);
+    await this.store.saveRatings(after);
+    const seasonAfter = seasonBefore ? this.rateGame(seasonBefore, players, winnerId, playedAt) : null;
+    if (season && seasonAfter) {
+      await this.store.saveRatings(seasonAfter, seasonScope(season.id));
+    }
+
+    return after.map((rating, index): RatingChange => ({
+      playerId: rating.playerId,
+      ...toChange(before[index], rating),
+      deviation: Math.round(rating.deviation),
+      ...(season && seasonBefore && seasonAfter && {
+        season: {
+          seasonId: season.id,
+          ...toChange(seasonBefore[index], seasonAfter[index]),
+          placementGamesRemaining: Math.max(0, this.seasonRules.placementGames - seasonAfter[index].gamesPlayed),
+        },
+      }),
+    }));
+  }
+
+  // Egy játék Glicko frissítése két játékos (azonos hatókörű) értékszámára
+  private rateGame(before: PlayerRating[], players: RatedGameResult['players'], winnerId: PlayerId | null, playedAt: number): PlayerRating[] {
+    const current = before.map(rating => ({ rating: rating.rating, deviation: getCurrentDeviation(rating, playedAt) }));
+    return before.map((rating, index): PlayerRating => {
+      const score = winnerId === null ? 0.5 : winnerId === rating.playerId ? 1 : 0;
+      const updated = calculateGlickoUpdate(current[index], current[1 - index], score);
+      return {
+        ...rating,
+        username: players[index].username,
+        rating: updated.rating,
+        deviation: updated.deviation,
+        gamesPlayed: rating.gamesPlayed + 1,
+        wins: rating.wins + (score === 1 ? 1 : 0),
+        losses: rating.losses + (score === 0 ? 1 : 0),
+        draws: rating.draws + (score === 0.5 ? 1 : 0),
+        lastPlayedAt: playedAt,
+      };
+    });
+  }
+
+  private async getSeasonStartRating(playerId: PlayerId, username: string, season: Season): Promise<PlayerRating> {
+    const previous = getPreviousSeason(this.seasons, season);
+    const previousRating = previous ? await this.store.getRating(playerId, seasonScope(previous.id)) : null;
+    const base = previousRating ?? await this.getRating(playerId, username);
+    const reset = softResetRating(
+      { rating: base.rating, deviation: getCurrentDeviation(base, season.startsAt) },
+      INITIAL_RATING,
+      this.seasonRules
+    );
+    return { ...createInitialRating(playerId, username), ...reset };
+  }
+}
+
+/**
+ * Memóriában tartott tároló: tesztekhez és perzisztencia nélküli futtatáshoz.
+ */
+export class InMemoryRatingStore implements RatingStore {
+  private scopes = new Map<RatingScope, Map<PlayerId, PlayerRating>>();
+
+  public async getRating(playerId: PlayerId, scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<PlayerRating | null> {
+    return this.scopes.get(scope)?.get(playerId) ?? null;
+  }
+
+  public async getAllRatings(scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<PlayerRating[]> {
+    return [...(this.scopes.get(scope)?.values() ?? [])];
+  }
+
+  public async saveRatings(ratings: PlayerRating[], scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<void> {
+    const scoped = this.scopes.get(scope) ?? new Map<PlayerId, PlayerRating>();
+    ratings.forEach(rating => scoped.set(rating.playerId, rating));
+    this.scopes.set(scope, scoped);
+  }
+}
+
+/**
+ * Fájl alapú tároló: az összes értékszám hatókörönként egy JSON dokumentumban. Az írás
+ * ideiglenes fájlba történik, majd átnevezéssel cseréli le az előzőt,
+ * így egy félbeszakadt írás nem rontja el a meglévő adatokat.
+ */
+export class FileRatingStore implements RatingStore {
+  private filePath: string;
+  // A fájlt egyszer olvassuk be; utána a memóriában tartott példány a mérvadó
+  private scopes: Promise<Map<RatingScope, Map<PlayerId, PlayerRating>>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async getRating(playerId: PlayerId, scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<PlayerRating | null> {
+    return (await this.load()).get(scope)?.get(playerId) ?? null;
+  }
+
+  public async getAllRatings(scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<PlayerRating[]> {
+    return [...((await this.load()).get(scope)?.values() ?? [])];
+  }
+
+  public async saveRatings(ratings: PlayerRating[], scope: RatingScope = GLOBAL_RATING_SCOPE): Promise<void> {
+    const all = await this.load();
+    const scoped = all.get(scope) ?? new Map<PlayerId, PlayerRating>();
+    ratings.forEach(rating => scoped.set(rating.playerId, rating));
+    all.set(scope, scoped);
+    const snapshot = JSON.stringify(Object.fromEntries([...all].map(([key, value]) => [key, Object.fromEntries(value)])), null, 2);
+
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf-8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // Egy sikertelen írás ne akassza meg a későbbieket
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private load(): Promise<Map<RatingScope, Map<PlayerId, PlayerRating>>> {
+    this.scopes ??= this.readFile();
+    return this.scopes;
+  }
+
+  private async readFile(): Promise<Map<RatingScope, Map<PlayerId, PlayerRating>>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      content = '{}';
+    }
+    const data = JSON.parse(content) as Record<RatingScope, Record<PlayerId, PlayerRating>>;
+    return new Map(Object.entries(data).map(([scope, ratings]) => [scope, new Map(Object.entries(ratings))]));
+  }
+}
@@ -0,0 +1,292 @@
+// ======================================================================
+// server/rematch-manager.ts
+// Visszavágó a játék vége után
+// Felelőssége: A 'game:end' után egy időablakig a két játékos visszavágót
+// kérhet és fogadhat el. Ilyenkor ugyanazokkal a résztvevőkkel és
+// beállításokkal indul új játék (a 'match-found' eseményen keresztül),
+// felcserélt kezdőjátékossal, és a sorozat állása is megmarad.
+// Best-of-N sorozatnál a visszavágó csak a sorozat eldőltéig kérhető.
+// Ha a visszavágó elmarad (lejár vagy visszavonják), a sorozat a
+// 'game:seriesEnded' eseménnyel zárul le a végeredménnyel.
+// ======================================================================
+
+import { Server } from 'socket.io';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { PlayerId } from '../shared/interfaces';
+import { MatchFoundEvent, PlayerInLobby, QueueConfig, QueueId } from './match-making-manager';
+
+/**
+ * Egy sorozat (egymást követő visszavágók) állása.
+ */
+export interface SeriesScore {
+  seriesId: string;
+  bestOf: number | null; // Best-of-N sorozat hossza (null = kötetlen számú visszavágó)
+  gamesPlayed: number;
+  wins: Record<PlayerId, number>;
+  draws: number;
+  isComplete: boolean;
+  winnerId: PlayerId | null; // A lezárult sorozat győztese (döntetlen sorozatnál null)
+}
+
+/**
+ * Új, még lejátszott játék nélküli sorozat.
+ */
+export const createSeries = (playerIds: PlayerId[], bestOf: number | null): SeriesScore => ({
+  seriesId: randomUUID(),
+  bestOf,
+  gamesPlayed: 0,
+  wins: Object.fromEntries(playerIds.map(id => [id, 0])),
+  draws: 0,
+  isComplete: false,
+  winnerId: null,
+});
+
+/**
+ * A sorozat állása egy újabb játék eredményével (winnerId = null: döntetlen).
+ * Best-of-N sorozat akkor dől el, ha valaki megszerezte a győzelmek többségét,
+ * vagy lement mind az N játék.
+ */
+export const recordSeriesResult = (series: SeriesScore, winnerId: PlayerId | null): SeriesScore => {
+  const next: SeriesScore = { ...series, wins: { ...series.wins }, gamesPlayed: series.gamesPlayed + 1 };
+  if (winnerId) {
+    next.wins[winnerId] = (next.wins[winnerId] ?? 0) + 1;
+  } else {
+    next.draws += 1;
+  }
+  if (next.bestOf !== null) {
+    const [leaderId, leaderWins] = Object.entries(next.wins).sort(([, a], [, b]) => b - a)[0];
+    const isTiedAtTop = Object.values(next.wins).filter(wins => wins === leaderWins).length > 1;
+    next.isComplete = leaderWins > next.bestOf / 2 || next.gamesPlayed >= next.bestOf;
+    next.winnerId = next.isComplete && !isTiedAtTop ? leaderId : null;
+  }
+  return next;
+};
+
+/**
+ * A sorozat lezárása a visszavágó elmaradásakor: a több játékot nyerő a győztes,
+ * egyenlő állásnál döntetlen (winnerId = null).
+ */
+export const closeSeries = (series: SeriesScore): SeriesScore => {
+  if (series.isComplete) return series;
+  const [leader, runnerUp] = Object.entries(series.wins).sort(([, a], [, b]) => b - a);
+  const isTied = !leader || (runnerUp !== undefined && runnerUp[1] === leader[1]);
+  return { ...series, isComplete: true, winnerId: isTied ? null : leader[0] };
+};
+
+/**
+ * A befejezett játék adatai, amelyekből a visszavágó felépül.
+ * A játékosok sorrendje a játék kezdési sorrendje (az első kezdett);
+ * a series már a most véget ért játék eredményét is tartalmazza.
+ */
+export interface EndedGame {
+  gameId: string;
+  players: { userId: PlayerId; username: string; isBot: boolean }[];
+  queueId: QueueId | null;
+  queue: QueueConfig;
+  series: SeriesScore;
+}
+
+export interface RematchManagerConfig {
+  windowMs: number; // Ennyi ideig lehet a játék vége után visszavágót kérni
+}
+
+interface RematchOffer {
+  game: EndedGame;
+  seriesId: string;
+  // Akik már kérték/elfogadták a visszavágót, a kérés idején használt socketjükkel
+  agreed: Map<PlayerId, string>;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+const BOT_SOCKET_ID = 'bot-socket';
+
+/**
+ * Kezeli a visszavágó-ajánlatokat és a sorozatok állását.
+ * Ha minden résztvevő beleegyezett, 'match-found' eseményt bocsát ki.
+ */
+class RematchManager extends EventEmitter {
+  private io: Server;
+  private config: RematchManagerConfig;
+
+  private offers = new Map<string, RematchOffer>();      // gameId -> ajánlat
+  private playerToOffer = new Map<PlayerId, string>();   // userId -> gameId
+  private series = new Map<string, SeriesScore>();
+
+  constructor(io: Server, config: RematchManagerConfig) {
+    super();
+    this.io = io;
+    this.config = config;
+    this.log('RematchManager initialized');
+  }
+
+  private log(message: string) {
+    console.log(`[RematchManager] ${message}`);
+  }
+
+  public hasOffer(userId: PlayerId) {
+    return this.playerToOffer.has(userId);
+  }
+
+  public getSeriesScore(seriesId: string): SeriesScore | undefined {
+    return this.series.get(seriesId);
+  }
+
+  /**
+   * Az induló meccs sorozata: visszavágónál a folyamatban lévő, különben egy új
+   * (a várólista best-of-N beállításával).
+   */
+  public getSeriesForMatch({ players, queue, seriesId }: MatchFoundEvent): SeriesScore {
+    const existing = seriesId ? this.series.get(seriesId) : undefined;
+    return existing ?? createSeries(players.map(p => p.userId), queue.bestOf ?? null);
+  }
+
+  /**
+   * A játék vége után megnyitja a visszavágó-ablakot, és eltárolja a sorozat állását.
+   * A játékosok a saját csatornájukon (user:<userId>) kapják az értesítést.
+   * Eldőlt best-of-N sorozat után nincs visszavágó.
+   */
+  public openWindow(game: EndedGame) {
+    const humans = game.players.filter(p => !p.isBot);
+    // Egy játékosnak egyszerre csak egy ajánlata lehet
+    humans.forEach(p => this.cancel(p.userId));
+    const score = game.series;
+    if (humans.length === 0 || score.isComplete) {
+      this.series.delete(score.seriesId);
+      return;
+    }
+    this.series.set(score.seriesId, score);
+
+    const offer: RematchOffer = {
+      game,
+      seriesId: score.seriesId,
+      agreed: new Map(),
+      expiresAt: Date.now() + this.config.windowMs,
+      timer: setTimeout(() => this.expire(game.gameId), this.config.windowMs),
+    };
+    // A bot mindig beleegyezik a visszavágóba
+    game.players.filter(p => p.isBot).forEach(p => offer.agreed.set(p.userId, BOT_SOCKET_ID));
+    this.offers.set(game.gameId, offer);
+    humans.forEach(p => this.playerToOffer.set(p.userId, game.gameId));
+
+    this.notify(offer, 'game:rematchAvailable', { gameId: game.gameId, series: score, expiresAt: offer.expiresAt });
+  }
+
+  /**
+   * Visszavágó kérése. Ha az ellenfél már kérte (vagy bot), a játék azonnal indul.
+   */
+  public requestRematch(userId: PlayerId, socketId: string): { success: boolean; message?: string } {
+    const offer = this.getOfferOf(userId);
+    if (!offer) {
+      return { success: false, message: 'Nincs visszavágóra lehetőség.' };
+    }
+    if (offer.agreed.has(userId)) {
+      return { success: false, message: 'A visszavágót már kérted.' };
+    }
+
+    offer.agreed.set(userId, socketId);
+    if (this.tryStartRematch(offer)) return { success: true };
+
+    const requester = offer.game.players.find(p => p.userId === userId)!;
+    this.notifyOthers(offer, userId, 'game:rematchRequested', { gameId: offer.game.gameId, from: { userId, username: requester.username } });
+    return { success: true };
+  }
+
+  /**
+   * Az ellenfél visszavágó-kérésének elfogadása.
+   */
+  public acceptRematch(userId: PlayerId, socketId: string): { success: boolean; message?: string } {
+    const offer = this.getOfferOf(userId);
+    const requested = offer && [...offer.agreed.keys()].some(id => id !== userId);
+    if (!offer || !requested) {
+      return { success: false, message: 'Nincs elfogadható visszavágó-kérés.' };
+    }
+
+    offer.agreed.set(userId, socketId);
+    this.tryStartRematch(offer);
+    return { success: true };
+  }
+
+  /**
+   * A játékos ajánlatának visszavonása (pl. új várólistára áll vagy kilép).
+   * A sorozat ezzel lezárul.
+   */
+  public cancel(userId: PlayerId) {
+    const offer = this.getOfferOf(userId);
+    if (!offer) return;
+
+    this.notifyOthers(offer, userId, 'game:rematchCancelled', { gameId: offer.game.gameId });
+    this.closeOffer(offer);
+    this.endSeries(offer);
+    this.log(`Rematch for game ${offer.game.gameId} cancelled by ${userId}.`);
+  }
+
+  private getOfferOf(userId: PlayerId): RematchOffer | undefined {
+    const gameId = this.playerToOffer.get(userId);
+    return gameId ? this.offers.get(gameId) : undefined;
+  }
+
+  private tryStartRematch(offer: RematchOffer): boolean {
+    const { game } = offer;
+    if (!game.players.every(p => offer.agreed.has(p.userId))) return false;
+
+    this.closeOffer(offer);
+    const series = this.series.get(offer.seriesId)!;
+    this.notify(offer, 'game:rematchStarting', { gameId: game.gameId, series });
+    this.log(`Rematch of game ${game.gameId} is starting (series ${offer.seriesId}, game #${series.gamesPlayed + 1}).`);
+
+    // A motor mindig az első játékossal kezd, így a fordított sorrend felcseréli a kezdőt
+    const now = Date.now();
+    const queueId = game.queueId ?? 'rematch';
+    const players: PlayerInLobby[] = [...game.players].reverse().map(p => ({
+      userId: p.userId,
+      username: p.username,
+      socketId: offer.agreed.get(p.userId)!,
+      joinedAt: now,
+      isBot: p.isBot,
+      queueId,
+    }));
+    const matchFound: MatchFoundEvent = { players, queueId, queue: game.queue, seriesId: offer.seriesId };
+    this.emit('match-found', matchFound);
+    return true;
+  }
+
+  private expire(gameId: string) {
+    const offer = this.offers.get(gameId);
+    if (!offer) return;
+
+    this.notify(offer, 'game:rematchExpired', { gameId });
+    this.closeOffer(offer);
+    this.endSeries(offer);
+    this.log(`Rematch window for game ${gameId} expired.`);
+  }
+
+  // Elmaradt visszavágó: a sorozat az eddigi állással zárul, ezt a játékosok is megkapják
+  private endSeries(offer: RematchOffer) {
+    const series = this.series.get(offer.seriesId);
+    this.series.delete(offer.seriesId);
+    if (!series) return;
+    this.notify(offer, 'game:seriesEnded', { gameId: offer.game.gameId, series: closeSeries(series) });
+  }
+
+  private closeOffer(offer: RematchOffer) {
+    clearTimeout(offer.timer);
+    this.offers.delete(offer.game.gameId);
+    offer.game.players.forEach(p => {
+      if (this.playerToOffer.get(p.userId) === offer.game.gameId) this.playerToOffer.delete(p.userId);
+    });
+  }
+
+  private notify(offer: RematchOffer, event: string, payload: object) {
+    offer.game.players.filter(p => !p.isBot).forEach(p => this.io.to(`user:${p.userId}`).emit(event, payload));
+  }
+
+  private notifyOthers(offer: RematchOffer, userId: PlayerId, event: string, payload: object) {
+    offer.game.players
+      .filter(p => !p.isBot && p.userId !== userId)
+      .forEach(p => this.io.to(`user:${p.userId}`).emit(event, payload));
+  }
+}
+
+export default RematchManager;
@@ -0,0 +1,342 @@
+// ======================================================================
+// server/room-manager.ts
+// Privát szobák rövid, megosztható kóddal
+// Felelőssége: A házigazda által beállított szobák kezelése. Ha mindkét
+// játékos kész, ugyanazt a 'match-found' eseményt bocsátja ki, mint a
+// MatchmakingManager, így a játék indítása a közös útvonalon történik.
+// ======================================================================
+
+import { Server, Socket } from 'socket.io';
+import { EventEmitter } from 'events';
+import { randomInt } from 'crypto';
+import { IGameSetup, ITimeControl, PlayerId } from '../shared/interfaces';
+import { MatchFoundEvent, PlayerInLobby, TimeoutPolicy, isValidBestOf } from './match-making-manager';
+
+export const PRIVATE_ROOM_QUEUE_ID = 'private';
+const ROOM_SIZE = 2;
+const ROOM_CODE_LENGTH = 6;
+// Könnyen összetéveszthető karakterek (0/O, 1/I) nélkül, hogy szóban is átadható legyen
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * A házigazda által választható beállítások.
+ */
+export interface RoomSettings {
+  timeControl: ITimeControl;
+  setup: IGameSetup;
+  botsAllowed: boolean;
+  bestOf?: number;
+}
+
+// A kliensről érkező beállítások (másodpercben, ahogy a felületen megadják)
+export interface RoomSettingsInput {
+  initialTimeSeconds?: number;
+  incrementSeconds?: number;
+  carsInDeck?: number;
+  actionsInDeck?: number;
+  initialCarCards?: number;
+  initialActionCards?: number;
+  handSizeLimit?: number;
+  roundWinsTarget?: number; // Első N nyert körig tart a játék
+  roundLimit?: number;      // Fix számú kör, a több pontot szerző nyer
+  bestOf?: number;          // Best-of-N játékból álló sorozat
+  botsAllowed?: boolean;
+}
+
+interface RoomMember {
+  userId: PlayerId;
+  username: string;
+  socketId: string;
+  isBot: boolean;
+  ready: boolean;
+}
+
+interface PrivateRoom {
+  code: string;
+  hostId: PlayerId;
+  settings: RoomSettings;
+  members: RoomMember[];
+  createdAt: number;
+}
+
+export interface RoomManagerConfig {
+  defaultTimeControl: ITimeControl;
+  timeoutPolicy: TimeoutPolicy;
+}
+
+type NumericSetting = Exclude<keyof RoomSettingsInput, 'botsAllowed'>;
+
+// Az elfogadott tartományok (a határokat is beleértve)
+const SETTING_LIMITS: Record<NumericSetting, [number, number]> = {
+  initialTimeSeconds: [30, 3600],
+  incrementSeconds: [0, 60],
+  carsInDeck: [4, 60],
+  actionsInDeck: [0, 30],
+  initialCarCards: [1, 10],
+  initialActionCards: [0, 5],
+  handSizeLimit: [3, 20],
+  roundWinsTarget: [1, 20],
+  roundLimit: [1, 50],
+  bestOf: [1, 9],
+};
+
+/**
+ * Ellenőrzi és szobabeállításokká alakítja a kliens által küldött értékeket.
+ * Hibás bemenet esetén az összes hibát egy üzenetben adja vissza.
+ */
+export const parseRoomSettings = (
+  input: RoomSettingsInput | undefined,
+  defaultTimeControl: ITimeControl
+): { success: true; settings: RoomSettings } | { success: false; message: string } => {
+  const raw = input ?? {};
+  const errors: string[] = [];
+  (Object.keys(SETTING_LIMITS) as NumericSetting[]).forEach(key => {
+    const value = raw[key];
+    const [min, max] = SETTING_LIMITS[key];
+    if (value !== undefined && !(Number.isInteger(value) && value >= min && value <= max)) {
+      errors.push(`${key}: ${min} és ${max} közötti egész szám lehet`);
+    }
+  });
+  if (raw.botsAllowed !== undefined && typeof raw.botsAllowed !== 'boolean') {
+    errors.push('botsAllowed: logikai érték lehet');
+  }
+  // A kezdő kezekhez elég autónak kell lennie a pakliban, és a kéz nem lépheti át a limitet
+  if (raw.carsInDeck !== undefined && raw.initialCarCards !== undefined && raw.initialCarCards * ROOM_SIZE > raw.carsInDeck) {
+    errors.push('carsInDeck: nem elég a kezdő kezekhez');
+  }
+  if (raw.handSizeLimit !== undefined && (raw.initialCarCards ?? 0) + (raw.initialActionCards ?? 0) > raw.handSizeLimit) {
+    errors.push('handSizeLimit: kisebb, mint a kezdő kéz');
+  }
+  if (raw.bestOf !== undefined && Number.isInteger(raw.bestOf) && !isValidBestOf(raw.bestOf)) {
+    errors.push('bestOf: csak páratlan szám lehet');
+  }
+  if (raw.roundWinsTarget !== undefined && raw.roundLimit !== undefined) {
+    errors.push('roundWinsTarget és roundLimit közül csak az egyik adható meg');
+  }
+  if (errors.length > 0) {
+    return { success: false, message: `Érvénytelen szobabeállítások: ${errors.join('; ')}` };
+  }
+
+  const setup: IGameSetup = {};
+  if (raw.carsInDeck !== undefined) setup.carsInDeck = raw.carsInDeck;
+  if (raw.actionsInDeck !== undefined) setup.actionsInDeck = raw.actionsInDeck;
+  if (raw.initialCarCards !== undefined) setup.initialCarCards = raw.initialCarCards;
+  if (raw.initialActionCards !== undefined) setup.initialActionCards = raw.initialActionCards;
+  if (raw.handSizeLimit !== undefined) setup.handSizeLimit = raw.handSizeLimit;
+  if (raw.roundWinsTarget !== undefined) setup.matchFormat = { type: 'first_to', roundWins: raw.roundWinsTarget };
+  if (raw.roundLimit !== undefined) setup.matchFormat = { type: 'fixed_rounds', rounds: raw.roundLimit };
+
+  return {
+    success: true,
+    settings: {
+      timeControl: {
+        initialTimeMs: raw.initialTimeSeconds !== undefined ? raw.initialTimeSeconds * 1000 : defaultTimeControl.initialTimeMs,
+        incrementMs: raw.incrementSeconds !== undefined ? raw.incrementSeconds * 1000 : defaultTimeControl.incrementMs,
+      },
+      setup,
+      botsAllowed: raw.botsAllowed ?? false,
+      bestOf: raw.bestOf,
+    },
+  };
+};
+
+/**
+ * Kezeli a privát szobákat: létrehozás, csatlakozás kóddal, kész jelzés.
+ * Ha egy szoba megtelt és mindenki kész, 'match-found' eseményt bocsát ki.
+ */
+class RoomManager extends EventEmitter {
+  private io: Server;
+  private config: RoomManagerConfig;
+
+  private rooms = new Map<string, PrivateRoom>();
+  private memberToRoom = new Map<PlayerId, string>();
+
+  constructor(io: Server, config: RoomManagerConfig) {
+    super();
+    this.io = io;
+    this.config = config;
+    this.log('RoomManager initialized');
+  }
+
+  private log(message: string) {
+    console.log(`[RoomManager] ${message}`);
+  }
+
+  public isInRoom(userId: PlayerId) {
+    return this.memberToRoom.has(userId);
+  }
+
+  /**
+   * Új szobát hoz létre; a létrehozó lesz a házigazda.
+   */
+  public createRoom(socket: Socket, userId: PlayerId, username: string, input?: RoomSettingsInput) {
+    if (this.isInRoom(userId)) {
+      socket.emit('room:error', { message: 'Már egy szobában vagy!' });
+      return;
+    }
+    const parsed = parseRoomSettings(input, this.config.defaultTimeControl);
+    if (!parsed.success) {
+      socket.emit('room:error', { message: parsed.message });
+      return;
+    }
+
+    const room: PrivateRoom = {
+      code: this.generateCode(),
+      hostId: userId,
+      settings: parsed.settings,
+      members: [],
+      createdAt: Date.now(),
+    };
+    this.rooms.set(room.code, room);
+    this.addMember(room, socket, userId, username);
+    this.log(`Room ${room.code} created by ${username}.`);
+
+    socket.emit('room:created', { code: room.code });
+    this.broadcastRoomUpdate(room);
+  }
+
+  /**
+   * Csatlakozás egy meglévő szobához a kódjával.
+   */
+  public joinRoom(socket: Socket, userId: PlayerId, username: string, code: string) {
+    if (this.isInRoom(userId)) {
+      socket.emit('room:error', { message: 'Már egy szobában vagy!' });
+      return;
+    }
+    const room = this.rooms.get(code.trim().toUpperCase());
+    if (!room) {
+      socket.emit('room:error', { message: 'Nincs ilyen kódú szoba.' });
+      return;
+    }
+    if (room.members.length >= ROOM_SIZE) {
+      socket.emit('room:error', { message: 'A szoba megtelt.' });
+      return;
+    }
+
+    this.addMember(room, socket, userId, username);
+    this.log(`${username} joined room ${room.code}.`);
+    this.broadcastRoomUpdate(room);
+  }
+
+  /**
+   * A házigazda botot ültet a szabad helyre (ha a szoba engedi).
+   */
+  public addBot(userId: PlayerId): { success: boolean; message?: string } {
+    const room = this.getRoomOf(userId);
+    if (!room || room.hostId !== userId) {
+      return { success: false, message: 'Csak a házigazda adhat botot a szobához.' };
+    }
+    if (!room.settings.botsAllowed) {
+      return { success: false, message: 'Ebben a szobában nem játszhat bot.' };
+    }
+    if (room.members.length >= ROOM_SIZE) {
+      return { success: false, message: 'A szoba megtelt.' };
+    }
+
+    room.members.push({ userId: `bot-${room.code}`, username: `AI Bot ${room.code}`, socketId: 'bot-socket', isBot: true, ready: true });
+    this.broadcastRoomUpdate(room);
+    this.tryStartMatch(room);
+    return { success: true };
+  }
+
+  /**
+   * Kész jelzés; ha a szoba megtelt és mindenki kész, indul a meccs.
+   */
+  public setReady(userId: PlayerId, ready: boolean) {
+    const room = this.getRoomOf(userId);
+    const member = room?.members.find(m => m.userId === userId);
+    if (!room || !member) return;
+
+    member.ready = ready;
+    this.broadcastRoomUpdate(room);
+    this.tryStartMatch(room);
+  }
+
+  /**
+   * Kilépés a szobából. Ha a házigazda lép ki, a szoba megszűnik.
+   */
+  public leaveRoom(userId: PlayerId) {
+    const room = this.getRoomOf(userId);
+    if (!room) return;
+
+    const leaving = room.members.find(m => m.userId === userId)!;
+    this.removeMember(room, leaving);
+    this.log(`${leaving.username} left room ${room.code}.`);
+
+    if (userId === room.hostId) {
+      this.io.to(this.channelOf(room)).emit('room:closed', { code: room.code, message: 'A házigazda bezárta a szobát.' });
+      [...room.members].forEach(member => this.removeMember(room, member));
+      this.rooms.delete(room.code);
+      return;
+    }
+    // A bent maradók kész jelzése elvész, hogy az új ellenfél ismeretében döntsenek
+    room.members.forEach(member => { if (!member.isBot) member.ready = false; });
+    this.broadcastRoomUpdate(room);
+  }
+
+  private getRoomOf(userId: PlayerId): PrivateRoom | undefined {
+    const code = this.memberToRoom.get(userId);
+    return code ? this.rooms.get(code) : undefined;
+  }
+
+  private channelOf(room: PrivateRoom) {
+    return `room:${room.code}`;
+  }
+
+  private generateCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)]).join('');
+    } while (this.rooms.has(code));
+    return code;
+  }
+
+  private addMember(room: PrivateRoom, socket: Socket, userId: PlayerId, username: string) {
+    room.members.push({ userId, username, socketId: socket.id, isBot: false, ready: false });
+    this.memberToRoom.set(userId, room.code);
+    socket.join(this.channelOf(room));
+  }
+
+  private removeMember(room: PrivateRoom, member: RoomMember) {
+    room.members = room.members.filter(m => m.userId !== member.userId);
+    if (member.isBot) return;
+    this.memberToRoom.delete(member.userId);
+    this.io.sockets.sockets.get(member.socketId)?.leave(this.channelOf(room));
+  }
+
+  private tryStartMatch(room: PrivateRoom) {
+    if (room.members.length < ROOM_SIZE || !room.members.every(m => m.ready)) return;
+
+    const now = Date.now();
+    const players: PlayerInLobby[] = room.members.map(m => ({
+      userId: m.userId,
+      username: m.username,
+      socketId: m.socketId,
+      joinedAt: now,
+      isBot: m.isBot,
+      queueId: PRIVATE_ROOM_QUEUE_ID,
+    }));
+    this.io.to(this.channelOf(room)).emit('room:starting', { code: room.code });
+    [...room.members].forEach(member => this.removeMember(room, member));
+    this.rooms.delete(room.code);
+    this.log(`Room ${room.code} is starting a match.`);
+
+    const matchFound: MatchFoundEvent = {
+      players,
+      queueId: PRIVATE_ROOM_QUEUE_ID,
+      queue: { timeControl: room.settings.timeControl, timeoutPolicy: this.config.timeoutPolicy, setup: room.settings.setup, bestOf: room.settings.bestOf },
+    };
+    this.emit('match-found', matchFound);
+  }
+
+  private broadcastRoomUpdate(room: PrivateRoom) {
+    this.io.to(this.channelOf(room)).emit('room:update', {
+      code: room.code,
+      hostId: room.hostId,
+      settings: room.settings,
+      members: room.members.map(m => ({ userId: m.userId, username: m.username, isBot: m.isBot, ready: m.ready })),
+    });
+  }
+}
+
+export default RoomManager;
@@ -0,0 +1,102 @@
+// ======================================================================
+// server/seasons.ts
+// Rangsorolt szezonok
+// Felelőssége: A szezonok (kezdő és záró időpont) beolvasása és
+// ellenőrzése, az aktuális szezon meghatározása, valamint a szezonváltáskor
+// alkalmazott részleges értékszám-visszaállítás (soft reset).
+// ======================================================================
+
+import * as fs from 'fs';
+
+/**
+ * Egy szezon: a [startsAt, endsAt) időszakban játszott rangsorolt játékok számítanak bele.
+ */
+export interface Season {
+  id: string;
+  name: string;
+  startsAt: number;
+  endsAt: number;
+}
+
+/**
+ * A szezonok működését szabályozó beállítások.
+ */
+export interface SeasonRules {
+  placementGames: number;   // Ennyi szezonbeli játék után kerül fel a játékos a szezon ranglistájára
+  ratingCarryOver: number;  // Az átlagtól való eltérés ekkora része marad meg szezonváltáskor (0-1)
+  resetDeviation: number;   // A szezon eleji bizonytalanság legalább ennyi
+}
+
+export const DEFAULT_SEASON_RULES: SeasonRules = {
+  placementGames: 5,
+  ratingCarryOver: 0.5,
+  resetDeviation: 250,
+};
+
+// A konfigurációs fájl formátuma: az időpontok ISO 8601 szövegként
+interface SeasonInput {
+  id?: unknown;
+  name?: unknown;
+  startsAt?: unknown;
+  endsAt?: unknown;
+}
+
+/**
+ * Ellenőrzi és időrendbe állítja a szezonokat. Hibás vagy egymást átfedő
+ * szezonok esetén kivételt dob (a szerver ilyenkor el sem indul).
+ */
+export const parseSeasons = (input: unknown): Season[] => {
+  if (!Array.isArray(input)) {
+    throw new Error('Seasons config must be an array.');
+  }
+  const seasons = (input as SeasonInput[]).map((raw, index): Season => {
+    const startsAt = typeof raw.startsAt === 'string' ? Date.parse(raw.startsAt) : NaN;
+    const endsAt = typeof raw.endsAt === 'string' ? Date.parse(raw.endsAt) : NaN;
+    if (typeof raw.id !== 'string' || !raw.id.trim()) {
+      throw new Error(`Season #${index + 1} has no id.`);
+    }
+    if (Number.isNaN(startsAt) || Number.isNaN(endsAt) || startsAt >= endsAt) {
+      throw new Error(`Season ${raw.id} must have valid startsAt < endsAt dates.`);
+    }
+    return { id: raw.id, name: typeof raw.name === 'string' ? raw.name : raw.id, startsAt, endsAt };
+  }).sort((a, b) => a.startsAt - b.startsAt);
+
+  seasons.forEach((season, index) => {
+    const previous = seasons[index - 1];
+    if (previous && previous.endsAt > season.startsAt) {
+      throw new Error(`Seasons ${previous.id} and ${season.id} overlap.`);
+    }
+    if (seasons.findIndex(s => s.id === season.id) !== index) {
+      throw new Error(`Duplicate season id: ${season.id}`);
+    }
+  });
+  return seasons;
+};
+
+/**
+ * Beolvassa a szezonokat a megadott JSON fájlból; ha a fájl nem létezik, nincs szezon.
+ */
+export const loadSeasons = (filePath: string): Season[] => {
+  if (!fs.existsSync(filePath)) return [];
+  return parseSeasons(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+};
+
+export const getSeasonAt = (seasons: Season[], time: number): Season | null =>
+  seasons.find(season => season.startsAt <= time && time < season.endsAt) ?? null;
+
+// A szezont közvetlenül megelőző (már lezárult) szezon, ha van
+export const getPreviousSeason = (seasons: Season[], season: Season): Season | null =>
+  [...seasons].reverse().find(s => s.endsAt <= season.startsAt) ?? null;
+
+/**
+ * Szezonváltáskor az értékszám az átlag felé húzódik, a bizonytalanság pedig nő,
+ * hogy az új szezon első játékai gyorsabban mozgassák.
+ */
+export const softResetRating = (
+  rating: { rating: number; deviation: number },
+  averageRating: number,
+  rules: SeasonRules
+): { rating: number; deviation: number } => ({
+  rating: averageRating + (rating.rating - averageRating) * rules.ratingCarryOver,
+  deviation: Math.max(rating.deviation, rules.resetDeviation),
+});
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseActionCards } from '../shared/action-cards';
+
+const SERVER_URL = 'http://cards.test';
+
+const validCard = {
+  id: 'ACTION_ENGINE_SABOTAGE',
+  name: 'Motor Szabotázs',
+  description: '-20% HP az ellenfélnek (ideiglenes)',
+  image: 'action-engine-sabotage.png',
+  rarity: 'uncommon',
+  actionEffects: [{ type: 'metric_mod_temp', targetMetric: 'hp', value: -20, modifierType: 'percentage', target: 'opponent' }],
+};
+
+describe('Action card definitions', () => {
+  it('loads the shipped actionCards.json', () => {
+    const data = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'shared', 'data', 'actionCards.json'), 'utf-8'));
+    const cards = parseActionCards(data, SERVER_URL);
+
+    expect(cards.map(c => c.id)).toContain('ACTION_EXTRA_TURN');
+    expect(cards.every(c => c.type === 'action' && c.deckWeight! > 0)).toBe(true);
+  });
+
+  it('builds the image url and derives the deck weight from the rarity', () => {
+    const [card] = parseActionCards([validCard], SERVER_URL);
+
+    expect(card).toMatchObject({
+      type: 'action',
+      imageUrl: 'http://cards.test/images/action-engine-sabotage.png',
+      rarity: 'uncommon',
+      deckWeight: 2,
+    });
+    expect(parseActionCards([{ ...validCard, deckWeight: 7 }], SERVER_URL)[0].deckWeight).toBe(7);
+  });
+
+  it('reports every invalid card at once', () => {
+    const invalid = [
+      { ...validCard, id: 'ACTION_BAD_METRIC', actionEffects: [{ ...validCard.actionEffects[0], targetMetric: 'price' }] },
+      { ...validCard, id: 'ACTION_BAD_RARITY', rarity: 'legendary', deckWeight: 0 },
+      { ...validCard, id: 'ACTION_BAD_TYPE', actionEffects: [{ type: 'extra_turn', target: 'self' }, { type: 'teleport', target: 'self' }] },
+      { ...validCard, id: 'ACTION_BAD_CONDITION', actionEffects: [{ type: 'extra_turn', target: 'self', conditions: [{ type: 'selected_metric', metrics: ['price'] }, { type: 'full_moon' }] }] },
+      { ...validCard, id: 'ACTION_NO_EFFECTS', actionEffects: [] },
+      { ...validCard, id: 'ACTION_BAD_REVEAL', actionEffects: [{ type: 'reveal', revealSource: 'draw_pile', durationRounds: 0, target: 'game' }] },
+      validCard,
+      validCard,
+    ];
+
+    expect(() => parseActionCards(invalid, SERVER_URL)).toThrow(
+      [
+        'Invalid action card definitions:',
+        '  - ACTION_BAD_METRIC: actionEffects[0]: metric_mod_temp requires a targetMetric from the metric registry',
+        '  - ACTION_BAD_RARITY: rarity must be one of common, uncommon, rare, epic',
+        '  - ACTION_BAD_RARITY: deckWeight must be a positive number',
+        '  - ACTION_BAD_TYPE: actionEffects[1]: type must be one of time_mod, metric_mod_temp, metric_mod_perm, override_metric, drop_card, extra_turn, reveal, steal, swap, recycle, cancel_action, reflect_action',
+        '  - ACTION_BAD_CONDITION: actionEffects[0]: selected_metric condition requires metrics from the metric registry',
+        '  - ACTION_BAD_CONDITION: actionEffects[0]: condition type must be one of score_behind, score_ahead, selected_metric',
+        '  - ACTION_NO_EFFECTS: actionEffects must be a non-empty array',
+        '  - ACTION_BAD_REVEAL: actionEffects[0]: reveal from the draw pile requires a value',
+        '  - ACTION_BAD_REVEAL: actionEffects[0]: reveal durationRounds must be a positive integer',
+        '  - ACTION_ENGINE_SABOTAGE: duplicate id',
+      ].join('\n')
+    );
+  });
+
+  it('rejects a file that is not an array', () => {
+    expect(() => parseActionCards({ cards: [] }, SERVER_URL)).toThrow('must contain an array');
+  });
+});
@@ -0,0 +1,139 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { createApiRouter } from '../src/api-router';
+import { GameManager } from '../src/game-manager';
+import { InMemoryMatchHistoryStore, MatchRecord } from '../src/match-history';
+import { AuthService } from '../src/auth';
+import { InMemoryRatingStore, LeaderboardPage, RatingService } from '../src/rating-service';
+import { IGameState } from '../shared/interfaces';
+
+const createRecord = (gameId: string, endedAt: number): MatchRecord => ({
+  gameId,
+  participants: [
+    { userId: 'player-1', username: 'P1', isBot: false },
+    { userId: 'bot-1', username: 'AI', isBot: true },
+  ],
+  seed: 42,
+  startedAt: endedAt - 1000,
+  endedAt,
+  durationMs: 1000,
+  winnerId: 'player-1',
+  gameStatus: 'win',
+  endReason: 'Game finished normally.',
+  finalState: { gameId } as IGameState,
+  events: [],
+});
+
+// A válasz alakját a hívó adja meg; ahol nem érdekes, unknown marad
+const getJson = async <T = unknown>(url: string): Promise<T> => (await fetch(url)).json() as Promise<T>;
+
+describe('REST API', () => {
+  let server: Server;
+  let baseUrl: string;
+  const matchHistory = new InMemoryMatchHistoryStore();
+  const auth = new AuthService({ secret: 'test-secret', guestTokenTtlSeconds: 60, devMode: false });
+  const ratingService = new RatingService(new InMemoryRatingStore());
+  const liveGame = {
+    getSummary: () => ({ gameId: 'live-game', phase: 'waiting_for_initial_play' }),
+  } as unknown as GameManager;
+
+  beforeAll(async () => {
+    // A HTTP kérésekhez valódi időzítők kellenek
+    jest.useRealTimers();
+    await matchHistory.saveMatch(createRecord('old-game', 1000));
+    await matchHistory.saveMatch(createRecord('new-game', 2000));
+    await ratingService.recordGame({
+      gameId: 'ranked-game',
+      players: [{ userId: 'player-1', username: 'P1', isBot: false }, { userId: 'player-2', username: 'P2', isBot: false }],
+      winnerId: 'player-1',
+      playedAt: 1000,
+    });
+
+    const app = express();
+    app.use('/api', createApiRouter({ getActiveGames: () => [liveGame], matchHistory, ratingService, auth }));
+    await new Promise<void>(resolve => {
+      server = app.listen(0, () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    jest.useFakeTimers();
+  });
+
+  it('reports health and readiness', async () => {
+    const health = await fetch(`${baseUrl}/health`);
+    expect(health.status).toBe(200);
+    expect(await health.json()).toMatchObject({ status: 'ok', version: 'v1', activeGames: 1 });
+
+    const ready = await fetch(`${baseUrl}/ready`);
+    expect(ready.status).toBe(200);
+    expect(((await ready.json()) as { cardCount: number }).cardCount).toBeGreaterThan(0);
+  });
+
+  it('serves the card catalog and single cards', async () => {
+    const actions = await getJson<{ type: string }[]>(`${baseUrl}/cards?type=action`);
+    expect(actions.length).toBeGreaterThan(0);
+    expect(actions.every(card => card.type === 'action')).toBe(true);
+
+    const card = await getJson(`${baseUrl}/cards/ACTION_EXTRA_TURN`);
+    expect(card).toMatchObject({ id: 'ACTION_EXTRA_TURN', type: 'action' });
+
+    const missing = await fetch(`${baseUrl}/cards/NOPE`);
+    expect(missing.status).toBe(404);
+  });
+
+  it('describes the metric registry', async () => {
+    const metrics = await getJson(`${baseUrl}/metrics`);
+    expect(metrics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'braking60', sourceColumn: '60-0 Feet', lowerIsBetter: true }),
+    ]));
+  });
+
+  it('lists active games', async () => {
+    const games = await getJson(`${baseUrl}/games`);
+    expect(games).toEqual([{ gameId: 'live-game', phase: 'waiting_for_initial_play' }]);
+  });
+
+  it('lists a player\'s matches newest first without the full state', async () => {
+    const matches = await getJson<Partial<MatchRecord>[]>(`${baseUrl}/players/player-1/matches?limit=1`);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ gameId: 'new-game', eventCount: 0 });
+    expect(matches[0].finalState).toBeUndefined();
+
+    const invalid = await fetch(`${baseUrl}/players/player-1/matches?limit=abc`);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('serves player ratings, with the starting rating for unrated players', async () => {
+    expect(await getJson(`${baseUrl}/players/player-1/rating`)).toMatchObject({ playerId: 'player-1', gamesPlayed: 1, wins: 1 });
+    expect(await getJson(`${baseUrl}/players/newcomer/rating`)).toMatchObject({ rating: 1500, deviation: 350, gamesPlayed: 0 });
+  });
+
+  it('pages the leaderboard and rejects unknown seasons', async () => {
+    const leaderboard = await getJson<LeaderboardPage>(`${baseUrl}/leaderboard`);
+    expect(leaderboard).toMatchObject({ seasonId: null, total: 2, offset: 0, limit: 20 });
+    expect(leaderboard.entries.map(e => [e.rank, e.playerId])).toEqual([[1, 'player-1'], [2, 'player-2']]);
+
+    const secondPage = await getJson<LeaderboardPage>(`${baseUrl}/leaderboard?offset=1&limit=1`);
+    expect(secondPage.entries).toEqual([expect.objectContaining({ rank: 2, playerId: 'player-2' })]);
+
+    expect((await fetch(`${baseUrl}/leaderboard?offset=-1`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/leaderboard?season=current`)).status).toBe(404);
+    expect(await getJson(`${baseUrl}/seasons`)).toEqual([]);
+  });
+
+  it('issues guest tokens that the server accepts', async () => {
+    const response = await fetch(`${baseUrl}/auth/guest`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: 'Speedy' }),
+    });
+    expect(response.status).toBe(201);
+
+    const guest = (await response.json()) as { token: string; userId: string };
+    expect(auth.verifyToken(guest.token)).toEqual({ success: true, user: { userId: guest.userId, username: 'Speedy' } });
+  });
+});
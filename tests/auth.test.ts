@@ -0,0 +1,61 @@
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthConfig, loadAuthConfigFromEnv } from '../src/auth';
+
+const SECRET = 'test-secret';
+const baseConfig: AuthConfig = { secret: SECRET, guestTokenTtlSeconds: 60, devMode: false };
+
+describe('AuthService', () => {
+  beforeEach(() => {
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+  });
+
+  it('refuses to start without a key unless dev mode is enabled', () => {
+    expect(() => new AuthService({ guestTokenTtlSeconds: 60, devMode: false })).toThrow('JWT_SECRET');
+    expect(new AuthService({ guestTokenTtlSeconds: 60, devMode: true }).devMode).toBe(true);
+  });
+
+  it('issues guest tokens that verify back to the same player', () => {
+    const auth = new AuthService(baseConfig);
+    const guest = auth.issueGuestToken('Speedy');
+
+    expect(guest.userId).toMatch(/^guest-[a-f0-9]{12}$/);
+    expect(guest.username).toBe('Speedy');
+    expect(auth.verifyToken(guest.token)).toEqual({ success: true, user: { userId: guest.userId, username: 'Speedy' } });
+  });
+
+  it('falls back to a safe username for invalid names', () => {
+    const auth = new AuthService(baseConfig);
+    expect(auth.issueGuestToken('<script>').username).toBe('Guest');
+  });
+
+  it('rejects expired tokens', () => {
+    const auth = new AuthService(baseConfig);
+    const guest = auth.issueGuestToken('Speedy');
+
+    jest.setSystemTime(new Date('2025-01-01T00:01:01Z'));
+    expect(auth.verifyToken(guest.token)).toEqual({ success: false, message: 'A token lejárt.' });
+  });
+
+  it('rejects tokens signed with another key or without a valid subject', () => {
+    const auth = new AuthService(baseConfig);
+
+    expect(auth.verifyToken(jwt.sign({ name: 'Eve' }, 'other-secret', { subject: 'player-1' })).success).toBe(false);
+    expect(auth.verifyToken(jwt.sign({ name: 'Eve' }, SECRET, { subject: '../x' })).success).toBe(false);
+    expect(auth.verifyToken(jwt.sign({ name: 'Eve' }, SECRET)).success).toBe(false);
+    expect(auth.verifyToken(undefined)).toEqual({ success: false, message: 'Hiányzó token.' });
+  });
+
+  it('enforces the configured issuer', () => {
+    const auth = new AuthService({ ...baseConfig, issuer: 'topcars' });
+
+    expect(auth.verifyToken(jwt.sign({}, SECRET, { subject: 'player-1', issuer: 'someone-else' })).success).toBe(false);
+    expect(auth.verifyToken(jwt.sign({}, SECRET, { subject: 'player-1', issuer: 'topcars' })).success).toBe(true);
+  });
+
+  it('reads its configuration from the environment', () => {
+    const config = loadAuthConfigFromEnv({ JWT_PUBLIC_KEY: 'line1\\nline2', AUTH_DEV_MODE: 'true' });
+
+    expect(config).toMatchObject({ publicKey: 'line1\nline2', devMode: true, guestTokenTtlSeconds: 86400 });
+    expect(config.secret).toBeUndefined();
+  });
+});
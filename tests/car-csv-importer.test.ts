@@ -0,0 +1,73 @@
+import { importCarsFromCsv, parseCsv, parseCsvNumber, createCarCardId } from '../shared/car-csv-importer';
+
+// Az opcionális metrikák oszlopai a sorok végén vannak, így a rövidebb sorokban egyszerűen hiányoznak
+const HEADER = "FALSE,Year,Makes: 96,Models: 675,Car Value,HP,Wt,Engine,0-60 Sec,Top Speed,0-100 Sec,1/4 Mile,60-0 Feet,100-0 Ft,Displ cc,Cylinders,Wt / HP,PI,60 mph g's,100mph g's";
+
+describe('CarList.csv importer', () => {
+  it('parses quoted fields with commas, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('parses numbers with thousands separators and rejects garbage', () => {
+    expect(parseCsvNumber('43,000')).toBe(43000);
+    expect(parseCsvNumber('1,234,567')).toBe(1234567);
+    expect(parseCsvNumber('6.500')).toBe(6.5);
+    expect(parseCsvNumber('')).toBeNull();
+    expect(parseCsvNumber('n/a')).toBeNull();
+  });
+
+  it('maps rows to car cards with stable ids', () => {
+    const csv = [HEADER, 'FALSE,2017,Abarth,124 Spider ,"43,000",186,"2,477",Inline,6.500,144.4', ''].join('\n');
+    const { cars, rejected } = importCarsFromCsv(csv, 'placeholder.png');
+
+    expect(rejected).toEqual([]);
+    expect(cars).toEqual([{
+      id: 'CAR_ABARTH_124SPIDER_2017',
+      name: 'Abarth 124 Spider (2017)',
+      type: 'car',
+      description: 'A 2017-es gyártású Abarth 124 Spider.',
+      brand: 'Abarth',
+      model: '124 Spider',
+      metrics: { speed: 144.4, hp: 186, accel: 6.5, weight: 2477, year: 2017 },
+      carRank: 'D',
+      engineType: 'Inline',
+      imageUrl: 'placeholder.png',
+    }]);
+    expect(createCarCardId('Alfa Romeo', 'GTV-6', 1986)).toBe('CAR_ALFAROMEO_GTV6_1986');
+  });
+
+  it('reads optional registry metrics when the row has them', () => {
+    const csv = [HEADER, 'FALSE,2017,Abarth,124 Spider,,186,2477,Inline,6.5,144.4,17.6,14.917,111.2,284.3,"1,368",4,13.32,360,1.10,'].join('\n');
+    const [car] = importCarsFromCsv(csv).cars;
+
+    expect(car.metrics).toMatchObject({ braking60: 111.2, displacement: 1368, cylinders: 4, weightPerHp: 13.32, pi: 360, lateralG60: 1.1 });
+    expect(car.metrics.lateralG100).toBeUndefined();
+  });
+
+  it('reports rejected rows with their line and reason', () => {
+    const csv = [
+      HEADER,
+      'FALSE,2017,Abarth,124 Spider,,186,2477,Inline,6.5,144.4',
+      'FALSE,2010,Abarth,500 esseesse,,0,2500,Inline,,130',
+      'FALSE,2009,,Mystery,,100,2000,V,7,120',
+      'FALSE,2017,Abarth,124-Spider,,190,2400,Inline,6.4,145',
+    ].join('\n');
+    const { cars, rejected } = importCarsFromCsv(csv);
+
+    expect(cars.map(c => c.id)).toEqual(['CAR_ABARTH_124SPIDER_2017']);
+    expect(rejected).toEqual([
+      { line: 3, reason: 'non-positive or missing metric(s): HP="0", 0-60 Sec=""' },
+      { line: 4, reason: 'missing brand or model' },
+      { line: 5, reason: 'duplicate card id CAR_ABARTH_124SPIDER_2017' },
+    ]);
+  });
+
+  it('fails loudly when a required column is renamed', () => {
+    const csv = [HEADER.replace('Models: 675', 'Models: 700'), 'FALSE,2017,Abarth,124 Spider,,186,2477,Inline,6.5,144.4'].join('\n');
+
+    expect(() => importCarsFromCsv(csv)).toThrow('missing column(s) "Models: 675"');
+  });
+});
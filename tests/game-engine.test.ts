@@ -7,10 +7,21 @@ import {
   getCardDefinition, // Szükséges a kártya típusának ellenőrzéséhez
   loadCardDefinitions, // Biztosítjuk, hogy a kártyák be legyenek töltve
   resolveRound,
-
+  performDiscard,
+  passReaction,
+  getClientGameState,
+  getSpectatorGameState,
+  createFixedTimeContext,
+  getRemainingTimeMs,
+  isClockRunning,
+  checkGameEndConditions,
 } from '../shared/game-engine'; // Módosítsd az elérési utat, ha szükséges
-import { IGameState, ICardInstance, IPlayerState } from '../shared/interfaces';
+import { IGameState, ICardInstance, IPlayerState, IGameRules, ITimeControl } from '../shared/interfaces';
 let uuidCounter = 1;
+// Rögzített óra, hogy a currentTurnStartTime is determinisztikus legyen a snapshotokban
+const ENGINE_START_TIME = 1234567890123;
+const ENGINE_CONTEXT = createFixedTimeContext(ENGINE_START_TIME);
+const TIME_CONTROL: ITimeControl = { initialTimeMs: 300000, incrementMs: 5000 };
 jest.mock('uuid', () => ({
   v4: () => `mock-uuid-${uuidCounter++}`,
 }));
@@ -18,11 +29,14 @@ jest.mock('uuid', () => ({
 // Local helper types to avoid 'any'
 type OverrideHandCard = { cardId: string; type?: 'car' | 'action' };
 type OverridePlayer = { hand: OverrideHandCard[] } & Partial<IPlayerState>;
+type OverridePiles = { drawPile?: OverrideHandCard[]; discardPile?: OverrideHandCard[] };
 type ScenarioStep = {
-  action: 'playCard' | 'advanceTurn';
+  action: 'playCard' | 'discardCard' | 'passReaction' | 'resolveRound' | 'advanceTurn';
   playerId?: string;
   findCard?: { type?: 'car' | 'action'; cardId?: string; indexInHand?: number };
   payload?: Record<string, unknown>;
+  // A payload kártyapéldány mezői a játékos kezéből feloldva (pl. swapCardInstanceId)
+  payloadCardsFromHand?: Record<string, { type?: 'car' | 'action'; cardId?: string; indexInHand?: number }>;
   expectedState?: Record<string, unknown>;
 };
 
@@ -69,8 +83,6 @@ describe('Game Engine Scenarios', () => {
   );
   beforeEach(() => {
     uuidCounter = 1;
-    // JAVÍTÁS: Mockoljuk a Date.now()-t, hogy a currentTurnStartTime is determinisztikus legyen.
-    jest.spyOn(Date, 'now').mockImplementation(() => 1234567890123);
   });
   scenarioFiles.forEach(file => {
     const scenario = JSON.parse(fs.readFileSync(path.join(scenariosDir, file), 'utf-8'));
@@ -83,8 +95,10 @@ describe('Game Engine Scenarios', () => {
         playerIds,
         playerNames,
         scenario.initialSeed,
-        300,
-        true
+        TIME_CONTROL,
+        true,
+        undefined,
+        ENGINE_CONTEXT
       );
       if (scenario.overrideInitialState) {
         // Ha van egyedi kezdőállapot, azt használjuk
@@ -104,27 +118,47 @@ describe('Game Engine Scenarios', () => {
           discardPile: [],
           drawPile: [],
           extraTurnPlayerId: null,
-          pendingMetricModifiers: { [playerIds[0]]: null, [playerIds[1]]: null },
-          gameLog: ['A teszt egyedi állapottal indult.'],
+          pendingMetricModifiers: { [playerIds[0]]: [], [playerIds[1]]: [] },
+          pendingReaction: null,
+          revealGrants: [],
+          roundsPlayed: 0,
+          rngState: 12345,
+          gameLog: [],
+          currentTurnStartTime: ENGINE_START_TIME,
+          timeControl: TIME_CONTROL,
+          // Egyedi állapotnál alapból nincs húzás, a forgatókönyv a 'rules' mezővel kapcsolhatja be
+          rules: { cardsDrawnPerRound: 0, drawRecipient: 'loser', reshuffleDiscardPile: false, deckOutRule: 'continue', handSizeLimit: 10, playableMetrics: ['speed', 'hp', 'accel', 'weight', 'year'], reactionWindowSeconds: 10, matchFormat: { type: 'standard' } },
         };
 
-        // 2. Alakítsuk át a kártyákat a kézben instance-okká
+        // 2. Alakítsuk át a kártyákat a kézben (és a paklikban) instance-okká
+        const toInstance = (card: OverrideHandCard): ICardInstance => ({
+          instanceId: `mock-uuid-${uuidCounter++}`,
+          cardId: card.cardId,
+          currentMetrics: card.type === 'car' ? getCardDefinition(card.cardId)?.metrics : undefined,
+          originalMetrics: card.type === 'car' ? getCardDefinition(card.cardId)?.metrics : undefined,
+        });
         (overrideState.players as OverridePlayer[]).forEach((player) => {
-          player.hand = player.hand.map((card: OverrideHandCard) => ({
-            instanceId: `mock-uuid-${uuidCounter++}`,
-            cardId: card.cardId,
-            currentMetrics: card.type === 'car' ? getCardDefinition(card.cardId)?.metrics : undefined,
-            originalMetrics: card.type === 'car' ? getCardDefinition(card.cardId)?.metrics : undefined,
-          }));
+          player.hand = player.hand.map(toInstance);
+          player.timeBankMs = player.timeBankMs ?? TIME_CONTROL.initialTimeMs;
+        });
+        (['drawPile', 'discardPile'] as (keyof OverridePiles)[]).forEach((pile) => {
+          if (overrideState[pile]) {
+            overrideState[pile] = (overrideState[pile] as OverrideHandCard[]).map(toInstance);
+          }
         });
 
         // 3. Egyesítsük az alap állapotot a felülírással
-        // Ami az overrideState-ben meg van adva, az felülírja az alapértelmezettet.
-        gameState = { ...baseGameState, ...overrideState } as IGameState;
+        // Ami az overrideState-ben meg van adva, az felülírja az alapértelmezettet (a szabályokat mezőnként).
+        gameState = {
+          ...baseGameState,
+          ...overrideState,
+          roundStarterId: overrideState.roundStarterId ?? overrideState.currentPlayerId,
+          rules: { ...baseGameState.rules, ...(overrideState.rules as Partial<IGameRules> | undefined) },
+        } as IGameState;
       } else {
         const playerIds = scenario.playerIds || ['player-1', 'player-2'];
         const playerNames = scenario.playerNames || ['Player 1', 'Player 2'];
-        gameState = initializeGame(playerIds, playerNames, scenario.initialSeed, 300, true);
+        gameState = initializeGame(playerIds, playerNames, scenario.initialSeed, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
       }
       // 2. Végigmegyünk a forgatókönyv lépésein
       (scenario.steps as ScenarioStep[]).forEach((step, index: number) => {
@@ -138,7 +172,10 @@ describe('Game Engine Scenarios', () => {
 
             const cardInstanceIdToPlay = findCardInstanceIdFromHand(playerState.hand, step.findCard ?? {});
 
-            const result = performPlay(gameState, step.playerId!, cardInstanceIdToPlay, step.payload || {});
+            const payloadCards = Object.fromEntries(Object.entries(step.payloadCardsFromHand ?? {})
+              .map(([field, criteria]) => [field, findCardInstanceIdFromHand(playerState.hand, criteria)]));
+
+            const result = performPlay(gameState, step.playerId!, cardInstanceIdToPlay, { ...step.payload, ...payloadCards }, ENGINE_CONTEXT);
             
             // Check if the play was successful
             if (!result.success) {
@@ -148,13 +185,38 @@ describe('Game Engine Scenarios', () => {
             newState = result.newState;
             break;
           }
+          case 'discardCard': {
+            const playerState = gameState.players.find((p: IPlayerState) => p.id === step.playerId);
+            if (!playerState) throw new Error(`Player not found: ${step.playerId}`);
+
+            const cardInstanceIdToDiscard = findCardInstanceIdFromHand(playerState.hand, step.findCard ?? {});
+            const result = performDiscard(gameState, step.playerId!, cardInstanceIdToDiscard, ENGINE_CONTEXT);
+            if (!result.success) {
+                throw new Error(`PerformDiscard failed: ${result.message}`);
+            }
+            newState = result.newState;
+            break;
+          }
+          case 'passReaction': {
+            const result = passReaction(gameState, step.playerId!, ENGINE_CONTEXT);
+            if (!result.success) {
+                throw new Error(`PassReaction failed: ${result.message}`);
+            }
+            newState = result.newState;
+            break;
+          }
+          case 'resolveRound': {
+            // Csak a kör lezárása (a szerver késleltetett hívását szimulálja), körváltás nélkül
+            newState = resolveRound(gameState, ENGINE_CONTEXT);
+            break;
+          }
           case 'advanceTurn': {
             // If both cards are on board, resolve first (server-timer simulated), then advance
             if (gameState.currentPlayerPhase === 'both_cards_on_board') {
-              const resolved = resolveRound(gameState);
-              newState = advanceTurn(resolved, resolved.roundWinnerId);
+              const resolved = resolveRound(gameState, ENGINE_CONTEXT);
+              newState = advanceTurn(resolved, resolved.roundWinnerId, ENGINE_CONTEXT);
             } else {
-              newState = advanceTurn(gameState, gameState.roundWinnerId);
+              newState = advanceTurn(gameState, gameState.roundWinnerId, ENGINE_CONTEXT);
             }
             break;
           }
@@ -182,9 +244,17 @@ describe('Game Engine Scenarios', () => {
             } else if (key.endsWith('_score')) {
               const playerId = key.split('_')[0];
               expect(actualPlayerState(playerId).score).toBe(expectedValue);
+            } else if (key === 'drawPileSize') {
+              expect(gameState.drawPile.length).toBe(expectedValue);
+            } else if (key === 'discardPileSize') {
+              expect(gameState.discardPile.length).toBe(expectedValue);
             } else if (key.startsWith('carOnBoardFor_')) {
               const playerId = key.replace('carOnBoardFor_', '');
               expect(!!gameState.carCardsOnBoard[playerId]).toBe(expectedValue);
+            } else if (key.startsWith('carMetricFor_')) {
+              // carMetricFor_<playerId>_<metrika>: az asztalon lévő autó aktuális (módosított) metrikája
+              const [playerId, metric] = key.replace('carMetricFor_', '').split('_');
+              expect(gameState.carCardsOnBoard[playerId]?.currentMetrics?.[metric]).toBe(expectedValue);
             } else if (key.startsWith('actionCardOnBoardFor_')) {
               const playerId = key.replace('actionCardOnBoardFor_', '');
               expect(!!gameState.activeActionCardsOnBoard[playerId]).toBe(expectedValue);
@@ -205,14 +275,13 @@ describe('Game Engine Scenarios', () => {
   describe('Both Cards On Board Phase', () => {
     beforeEach(() => {
       uuidCounter = 1;
-      jest.spyOn(Date, 'now').mockImplementation(() => 1234567890123);
     });
 
     test('should enter both_cards_on_board phase when both players play cards', () => {
       // Initialize game
       const playerIds = ['player1', 'player2'];
       const playerNames = ['Player 1', 'Player 2'];
-      let gameState: IGameState = initializeGame(playerIds, playerNames, 42, 300, true);
+      let gameState: IGameState = initializeGame(playerIds, playerNames, 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
 
       // Find car cards in both players' hands
       const player1 = gameState.players.find(p => p.id === 'player1')!;
@@ -231,7 +300,7 @@ describe('Game Engine Scenarios', () => {
       // Player 1 plays a car card
       const result1 = performPlay(gameState, 'player1', player1CarCard!.instanceId, { 
         selectedMetric: 'hp' 
-      });
+      }, ENGINE_CONTEXT);
       if (!result1.success) throw new Error(result1.message);
       gameState = result1.newState;
 
@@ -244,7 +313,7 @@ describe('Game Engine Scenarios', () => {
       // Player 2 plays a car card
       const result2 = performPlay(gameState, 'player2', player2CarCard!.instanceId, { 
         selectedMetric: 'hp' 
-      });
+      }, ENGINE_CONTEXT);
       if (!result2.success) throw new Error(result2.message);
       gameState = result2.newState;
 
@@ -253,7 +322,7 @@ describe('Game Engine Scenarios', () => {
       expect(gameState.carCardsOnBoard['player2']).not.toBeNull();
       expect(gameState.currentPlayerPhase).toBe('both_cards_on_board');
       // Ensure server also logs the comparison moment
-      expect(gameState.gameLog).toContain('Mindkét játékos kijátszotta a kártyáját!');
+      expect(gameState.gameLog.map(entry => entry.code)).toContain('both_cards_played');
       
       // CRITICAL: Game should still be playing (not ended prematurely)
       expect(gameState.gameStatus).toBe('playing');
@@ -264,7 +333,7 @@ describe('Game Engine Scenarios', () => {
       // Initialize game
       const playerIds = ['player1', 'player2'];
       const playerNames = ['Player 1', 'Player 2'];
-      let gameState: IGameState = initializeGame(playerIds, playerNames, 42, 300, true);
+      let gameState: IGameState = initializeGame(playerIds, playerNames, 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
 
       // Find car cards in both players' hands
       const player1 = gameState.players.find(p => p.id === 'player1')!;
@@ -280,13 +349,13 @@ describe('Game Engine Scenarios', () => {
       // Both players play cards
       const result1 = performPlay(gameState, 'player1', player1CarCard!.instanceId, { 
         selectedMetric: 'hp' 
-      });
+      }, ENGINE_CONTEXT);
       if (!result1.success) throw new Error(result1.message);
       gameState = result1.newState;
 
       const result2 = performPlay(gameState, 'player2', player2CarCard!.instanceId, { 
         selectedMetric: 'hp' 
-      });
+      }, ENGINE_CONTEXT);
       if (!result2.success) throw new Error(result2.message);
       gameState = result2.newState;
 
@@ -298,8 +367,8 @@ describe('Game Engine Scenarios', () => {
       const player2HandSizeBefore = gameState.players.find(p => p.id === 'player2')!.hand.length;
 
       // Resolve round then advance turn
-      gameState = resolveRound(gameState);
-      gameState = advanceTurn(gameState, gameState.roundWinnerId);
+      gameState = resolveRound(gameState, ENGINE_CONTEXT);
+      gameState = advanceTurn(gameState, gameState.roundWinnerId, ENGINE_CONTEXT);
 
       // Verify round was resolved and next turn prepared
       expect(gameState.currentPlayerPhase).toBe('waiting_for_initial_play');
@@ -314,8 +383,205 @@ describe('Game Engine Scenarios', () => {
       const totalHandSizeBefore = player1HandSizeBefore + player2HandSizeBefore;
       const totalHandSizeAfter = player1HandSizeAfter + player2HandSizeAfter;
       
-      // Total cards should be the same (winner gets both cards)
-      expect(totalHandSizeAfter).toBe(totalHandSizeBefore + 2);
+      // Winner gets both cards back, plus the configured draw after the round
+      expect(totalHandSizeAfter).toBe(totalHandSizeBefore + 2 + gameState.rules.cardsDrawnPerRound);
+    });
+  });
+
+  describe('Engine context', () => {
+    test('takes every timestamp from the injected clock instead of the system time', () => {
+      let clockTime = 1000;
+      const context = { now: () => clockTime };
+      const dateNowSpy = jest.spyOn(Date, 'now');
+
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, context);
+      expect(gameState.currentTurnStartTime).toBe(1000);
+
+      clockTime = 5000;
+      const currentPlayer = gameState.players.find(p => p.id === gameState.currentPlayerId)!;
+      const carCard = currentPlayer.hand.find(card => getCardDefinition(card.cardId)?.type === 'car')!;
+      const result = performPlay(gameState, currentPlayer.id, carCard.instanceId, { selectedMetric: 'hp' }, context);
+      if (!result.success) throw new Error(result.message);
+
+      expect(result.newState.currentTurnStartTime).toBe(5000);
+      expect(dateNowSpy).not.toHaveBeenCalled();
+      dateNowSpy.mockRestore();
+    });
+  });
+
+  describe('Chess clock', () => {
+    beforeEach(() => {
+      uuidCounter = 1;
+    });
+
+    const playFirstCar = (state: IGameState, now: number): IGameState => {
+      const currentPlayer = state.players.find(p => p.id === state.currentPlayerId)!;
+      const carCard = currentPlayer.hand.find(card => getCardDefinition(card.cardId)?.type === 'car')!;
+      const result = performPlay(state, currentPlayer.id, carCard.instanceId, { selectedMetric: 'hp' }, createFixedTimeContext(now));
+      if (!result.success) throw new Error(result.message);
+      return result.newState;
+    };
+
+    test('charges the elapsed time to the moving player only and credits the increment', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
+      expect(gameState.players.map(p => p.timeBankMs)).toEqual([300000, 300000]);
+
+      const afterMove = playFirstCar(gameState, ENGINE_START_TIME + 20000);
+
+      expect(afterMove.players.map(p => p.timeBankMs)).toEqual([300000 - 20000 + 5000, 300000]);
+      expect(getRemainingTimeMs(afterMove, 'player2', createFixedTimeContext(ENGINE_START_TIME + 30000))).toBe(300000 - 10000);
+    });
+
+    test('stops both clocks while the cards are compared', () => {
+      let gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
+      gameState = playFirstCar(gameState, ENGINE_START_TIME + 1000);
+      gameState = playFirstCar(gameState, ENGINE_START_TIME + 2000);
+      expect(gameState.currentPlayerPhase).toBe('both_cards_on_board');
+
+      const muchLater = createFixedTimeContext(ENGINE_START_TIME + 600000);
+      expect(isClockRunning(gameState)).toBe(false);
+      expect(getRemainingTimeMs(gameState, gameState.currentPlayerId, muchLater)).toBe(300000 - 1000 + 5000);
+    });
+
+    test('time_mod credits only the player who played it', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT);
+      gameState.players[0].hand.push({ instanceId: 'time-boost', cardId: 'ACTION_TIME_BOOST' });
+      gameState.players[1].hand = gameState.players[1].hand.filter(card => getCardDefinition(card.cardId)?.type === 'car');
+
+      const result = performPlay(gameState, 'player1', 'time-boost', {}, ENGINE_CONTEXT);
+      if (!result.success) throw new Error(result.message);
+
+      expect(result.newState.players.map(p => p.timeBankMs)).toEqual([300000 + 5000 + 30000, 300000]);
+    });
+  });
+
+  describe('Game setup', () => {
+    test('overrides the deck size, the starting hands and the hand limit for a single game', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT,
+        { carsInDeck: 10, actionsInDeck: 0, initialCarCards: 4, initialActionCards: 0, handSizeLimit: 6 });
+
+      expect(gameState.players.map(p => p.hand.length)).toEqual([4, 4]);
+      expect(gameState.drawPile).toHaveLength(2);
+      expect(gameState.rules.handSizeLimit).toBe(6);
+    });
+  });
+
+  describe('Match formats', () => {
+    test('ends a fixed-rounds game after the last round and decides it on points', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true, undefined, ENGINE_CONTEXT,
+        { matchFormat: { type: 'fixed_rounds', rounds: 3 } });
+      gameState.roundsPlayed = 2;
+      gameState.players[1].score = 2;
+
+      expect(checkGameEndConditions(gameState, ENGINE_CONTEXT).gameStatus).toBe('playing');
+
+      gameState.roundsPlayed = 3;
+      const ended = checkGameEndConditions(gameState, ENGINE_CONTEXT);
+      expect(ended).toMatchObject({ gameStatus: 'win', winnerId: 'player2' });
+      expect(ended.gameLog[ended.gameLog.length - 1]).toMatchObject({ code: 'game_won', params: { reason: 'round_limit_reached', targetPlayerId: 'player1' } });
+
+      gameState.players[0].score = 2;
+      expect(checkGameEndConditions(gameState, ENGINE_CONTEXT)).toMatchObject({ gameStatus: 'tie', winnerId: null });
+    });
+  });
+
+  describe('Client state filtering', () => {
+    beforeEach(() => {
+      uuidCounter = 1;
+    });
+
+    test('hides the opponent hand and the draw pile without reveal grants', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true);
+      const clientState = getClientGameState(gameState, 'player1');
+
+      expect(clientState.players[1].hand.every(card => card.cardId === 'HIDDEN_CARD_BACK')).toBe(true);
+      expect(clientState.players[0].hand).toEqual(gameState.players[0].hand);
+      expect(clientState.drawPile).toEqual([]);
+      expect(clientState.rngSeed).toBeUndefined();
+      expect(clientState.rngState).toBeUndefined();
+    });
+
+    test('reveals only the granted card instances to the granted player', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true);
+      const revealedHandCard = gameState.players[1].hand[0];
+      const [, revealedDrawCard] = gameState.drawPile;
+      gameState.revealGrants = [
+        { playerId: 'player1', source: 'opponent_hand', cardInstanceIds: [revealedHandCard.instanceId], roundsRemaining: 1 },
+        { playerId: 'player1', source: 'draw_pile', cardInstanceIds: [revealedDrawCard.instanceId], roundsRemaining: 2 },
+        { playerId: 'player2', source: 'opponent_hand', cardInstanceIds: [gameState.players[0].hand[0].instanceId], roundsRemaining: 1 },
+      ];
+
+      const clientState = getClientGameState(gameState, 'player1');
+
+      expect(clientState.players[1].hand[0]).toEqual(revealedHandCard);
+      expect(clientState.players[1].hand.slice(1).every(card => card.cardId === 'HIDDEN_CARD_BACK')).toBe(true);
+      expect(clientState.drawPile).toEqual([revealedDrawCard]);
+      expect(clientState.revealGrants.map(grant => grant.playerId)).toEqual(['player1', 'player1']);
+    });
+
+    test('hides both hands from spectators, even the cards revealed to a player', () => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true);
+      gameState.revealGrants = [
+        { playerId: 'player1', source: 'opponent_hand', cardInstanceIds: [gameState.players[1].hand[0].instanceId], roundsRemaining: 1 },
+      ];
+
+      const spectatorState = getSpectatorGameState(gameState);
+
+      expect(spectatorState.players.every(player => player.hand.every(card => card.cardId === 'HIDDEN_CARD_BACK'))).toBe(true);
+      expect(spectatorState.players.map(player => player.hand.length)).toEqual(gameState.players.map(player => player.hand.length));
+      expect(spectatorState.revealGrants).toEqual([]);
+      expect(spectatorState.drawPile).toEqual([]);
+      expect(spectatorState.rngState).toBeUndefined();
+    });
+  });
+
+  describe('Game RNG stream', () => {
+    beforeEach(() => {
+      uuidCounter = 1;
+    });
+
+    // P1 lapdobatást játszik ki; P2 kezében csak autók vannak, így reakcióablak nem nyílik
+    const playDropCard = (state: IGameState): IGameState => {
+      const result = performPlay(state, 'player1', 'drop-card', {});
+      if (!result.success) throw new Error(`PerformPlay failed: ${result.message}`);
+      return result.newState;
+    };
+
+    const createDropCardState = (): IGameState => {
+      const gameState = initializeGame(['player1', 'player2'], ['Player 1', 'Player 2'], 42, TIME_CONTROL, true);
+      const [player1, player2] = gameState.players;
+      const isCar = (card: ICardInstance) => getCardDefinition(card.cardId)?.type === 'car';
+      player1.hand = [{ instanceId: 'drop-card', cardId: 'ACTION_DROP_CARD' }, ...player1.hand.filter(isCar)];
+      player2.hand = [...player2.hand, ...gameState.drawPile].filter(isCar).slice(0, 5);
+      gameState.currentPlayerId = 'player1';
+      return gameState;
+    };
+
+    test('advances the persisted RNG state on every random draw', () => {
+      const gameState = createDropCardState();
+      const afterDrop = playDropCard(gameState);
+
+      expect(afterDrop.rngSeed).toBe(gameState.rngSeed);
+      expect(afterDrop.rngState).not.toBe(gameState.rngState);
+    });
+
+    test('continues the stream instead of reseeding, so equal hand sizes can drop different cards', () => {
+      const gameState = createDropCardState();
+      const droppedCardIds = new Set<string>();
+      // Ugyanakkora kézből dobatunk többször, a folyam különböző pontjairól indulva
+      let rngState = gameState.rngState;
+      for (let i = 0; i < 10; i++) {
+        const afterDrop = playDropCard({ ...gameState, rngState });
+        droppedCardIds.add(afterDrop.discardPile[afterDrop.discardPile.length - 1].instanceId);
+        rngState = afterDrop.rngState;
+      }
+
+      expect(droppedCardIds.size).toBeGreaterThan(1);
+    });
+
+    test('is deterministic for the same persisted state', () => {
+      const gameState = createDropCardState();
+      expect(playDropCard(gameState)).toEqual(playDropCard(gameState));
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { initializeGame, createFixedTimeContext, getCardCatalogVersion } from '../shared/game-engine';
+import { applyEvent, createGameStartedEvent, replay } from '../shared/game-events';
+import { decideMove } from '../src/ai-manager';
+import { GameEvent, IGameState } from '../shared/interfaces';
+
+let uuidCounter = 1;
+jest.mock('uuid', () => ({
+  v4: () => `mock-uuid-${uuidCounter++}`,
+}));
+
+const SEED = 12345;
+const START_TIME = 1_700_000_000_000;
+
+/**
+ * Lejátszik egy játékot két bottal, minden lépést eseményként alkalmazva.
+ * Visszaadja a végállapotot és a teljes eseménynaplót.
+ */
+const playRecordedGame = (maxEvents: number): { state: IGameState; events: GameEvent[] } => {
+  let state = initializeGame(['p1', 'p2'], ['P1', 'P2'], SEED, { initialTimeMs: 30000, incrementMs: 0 }, true, undefined, createFixedTimeContext(START_TIME));
+  const events: GameEvent[] = [createGameStartedEvent(state)];
+  let timestamp = START_TIME;
+
+  const apply = (event: GameEvent) => {
+    const result = applyEvent(state, event);
+    if (!result.success) throw new Error(result.message);
+    state = result.newState;
+    events.push(event);
+  };
+
+  while (state.gameStatus === 'playing' && events.length < maxEvents) {
+    timestamp += 1000;
+    if (state.currentPlayerPhase === 'both_cards_on_board') {
+      apply({ type: 'ResolveRound', timestamp });
+    } else if (state.currentPlayerPhase === 'round_resolved') {
+      apply({ type: 'AdvanceTurn', timestamp });
+    } else {
+      const playerId = state.currentPlayerId;
+      const move = decideMove(state, playerId);
+      if (!move) {
+        apply({ type: 'Forfeit', timestamp, playerId, reason: 'no_valid_move' });
+      } else if (move.action === 'discard') {
+        apply({ type: 'Discard', timestamp, playerId, cardInstanceId: move.cardInstanceId });
+      } else if (move.action === 'passReaction') {
+        apply({ type: 'PassReaction', timestamp, playerId });
+      } else {
+        apply({ type: 'PlayCard', timestamp, playerId, cardInstanceId: move.cardInstanceId, payload: move.payload });
+      }
+    }
+  }
+
+  return { state, events };
+};
+
+describe('Game events', () => {
+  it('replay rebuilds the exact live state from the seed and the event log', () => {
+    const { state, events } = playRecordedGame(200);
+
+    expect(events.length).toBeGreaterThan(10);
+    expect(replay(SEED, events)).toEqual(state);
+  });
+
+  it('replay handles a paused and resumed game', () => {
+    const { state, events } = playRecordedGame(5);
+    const resume: GameEvent = { type: 'Resume', timestamp: START_TIME + 60000, pausedForMs: 20000 };
+    const result = applyEvent(state, resume);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.newState.currentTurnStartTime).toBe(state.currentTurnStartTime + 20000);
+    expect(replay(SEED, [...events, resume])).toEqual(result.newState);
+  });
+
+  it('rejects an invalid event without changing the state', () => {
+    const { state } = playRecordedGame(1);
+    const result = applyEvent(state, { type: 'AdvanceTurn', timestamp: START_TIME });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('replay uses the rules recorded at game start instead of the current config', () => {
+    const { state, events } = playRecordedGame(3);
+    const [started, ...rest] = events;
+    expect(started).toMatchObject({ type: 'GameStarted', rules: state.rules, catalogVersion: getCardCatalogVersion() });
+
+    const recordedRules = { ...state.rules, handSizeLimit: 4, reactionWindowSeconds: 3 };
+    const replayed = replay(SEED, [{ ...started, rules: recordedRules } as GameEvent, ...rest]);
+    expect(replayed.rules).toEqual(recordedRules);
+  });
+
+  it('refuses to replay a log recorded with a different card catalog', () => {
+    const { events } = playRecordedGame(3);
+    const [started, ...rest] = events;
+
+    expect(() => replay(SEED, [{ ...started, catalogVersion: 'other-catalog' } as GameEvent, ...rest])).toThrow('card catalog other-catalog');
+  });
+
+  it('replay requires the log to start with GameStarted', () => {
+    expect(() => replay(SEED, [{ type: 'AdvanceTurn', timestamp: START_TIME }])).toThrow('GameStarted');
+  });
+});
@@ -0,0 +1,58 @@
+import { formatGameLogEntry, createGameLogNameResolver, GAME_LOG_CATALOGS } from '../shared/game-log';
+import { createFixedTimeContext, endGameByForfeit, initializeGame, loadCardDefinitions } from '../shared/game-engine';
+import { GameLogLocale, IGameLogEntry } from '../shared/interfaces';
+
+const names = {
+  playerName: (playerId: string) => ({ p1: 'Anna', p2: 'Bence' }[playerId] ?? playerId),
+  cardName: (cardId: string) => ({ ACTION_DROP_CARD: 'Lap Lehúzás' }[cardId] ?? cardId),
+};
+
+const placeholdersOf = (template: string): string[] => (template.match(/\{\w+\}/g) ?? []).sort();
+
+describe('Game log', () => {
+  it('renders the same entry in Hungarian and English', () => {
+    const entry: IGameLogEntry = { code: 'card_dropped', params: { playerId: 'p1', cardId: 'ACTION_DROP_CARD' }, timestamp: 1000 };
+
+    expect(formatGameLogEntry(entry, 'hu', names)).toBe("Anna a(z) 'Lap Lehúzás' kártyával eldobatta az ellenfél egy véletlenszerű lapját.");
+    expect(formatGameLogEntry(entry, 'en', names)).toBe("Anna used 'Lap Lehúzás' to make the opponent discard a random card.");
+  });
+
+  it('renders the game end reason with its own parameters', () => {
+    const entry: IGameLogEntry = {
+      code: 'game_won',
+      params: { playerId: 'p2', reason: 'forfeit', targetPlayerId: 'p1', forfeitReason: 'disconnect' },
+      timestamp: 1000,
+    };
+
+    expect(formatGameLogEntry(entry, 'hu', names)).toBe('Játék vége! Bence nyert. Ok: Anna nem csatlakozott vissza időben.');
+    expect(formatGameLogEntry(entry, 'en', names)).toBe('Game over! Bence won. Reason: Anna did not reconnect in time.');
+  });
+
+  it('uses the same placeholders for every message in every catalog', () => {
+    const [reference, ...others] = Object.keys(GAME_LOG_CATALOGS) as GameLogLocale[];
+    others.forEach(locale => {
+      (['messages', 'endReasons'] as const).forEach(section => {
+        Object.entries(GAME_LOG_CATALOGS[reference][section]).forEach(([code, template]) => {
+          const translated = (GAME_LOG_CATALOGS[locale][section] as Record<string, string>)[code];
+          expect({ locale, code, placeholders: placeholdersOf(translated) }).toEqual({ locale, code, placeholders: placeholdersOf(template) });
+        });
+      });
+    });
+  });
+
+  it('records typed entries with the engine clock and resolves names from the game state', () => {
+    loadCardDefinitions();
+    const context = createFixedTimeContext(1234);
+    const state = initializeGame(['p1', 'p2'], ['Anna', 'Bence'], 42, { initialTimeMs: 300000, incrementMs: 0 }, true, undefined, context);
+    const finished = endGameByForfeit(state, 'p1', 'no_valid_move', createFixedTimeContext(5678));
+    const lastEntry = finished.gameLog[finished.gameLog.length - 1];
+
+    expect(finished.gameLog[0]).toEqual({ code: 'game_started', params: { playerId: state.currentPlayerId }, timestamp: 1234 });
+    expect(lastEntry).toEqual({
+      code: 'game_won',
+      params: { playerId: 'p2', reason: 'forfeit', targetPlayerId: 'p1', forfeitReason: 'no_valid_move' },
+      timestamp: 5678,
+    });
+    expect(formatGameLogEntry(lastEntry, 'en', createGameLogNameResolver(finished))).toBe('Game over! Bence won. Reason: Anna could not make a legal move.');
+  });
+});
@@ -1,7 +1,9 @@
 import { GameManager } from '../src/game-manager';
-import { Server } from 'socket.io';
-import { initializeGame, performPlay, advanceTurn, getClientGameState } from '../shared/game-engine';
+import { Server, Socket } from 'socket.io';
+import { initializeGame, performPlay, performDiscard, advanceTurn, resolveRound, getClientGameState, getSpectatorGameState } from '../shared/game-engine';
 import { decideMove } from '../src/ai-manager';
+import { InMemoryMatchHistoryStore } from '../src/match-history';
+import { createSeries } from '../src/rematch-manager';
 import { IGameState } from '../shared/interfaces';
 import * as jsonpatch from 'fast-json-patch';
 
@@ -13,8 +15,11 @@ jest.mock('../shared/game-engine', () => ({
     ...jest.requireActual('../shared/game-engine'), // A többi függvényt meghagyjuk eredetiben
     initializeGame: jest.fn(),
     performPlay: jest.fn(),
+    performDiscard: jest.fn(),
     advanceTurn: jest.fn(),
+    resolveRound: jest.fn(jest.requireActual('../shared/game-engine').resolveRound),
     getClientGameState: jest.fn(),
+    getSpectatorGameState: jest.fn(),
 }));
 
 // Mockoljuk az aiManager-t, hogy irányítani tudjuk a bot döntéseit.
@@ -25,6 +30,10 @@ jest.mock('../src/ai-manager', () => ({
 // Mockoljuk a setTimeout-ot, hogy ne kelljen valós időben várnunk.
 jest.useFakeTimers();
 
+// A motor az esemény időpontját adó kontextust kapja a GameManagertől
+const ENGINE_CONTEXT_MATCHER = expect.objectContaining({ now: expect.any(Function) });
+const TIME_CONTROL = { initialTimeMs: 60000, incrementMs: 0 };
+
 // --- Teszt Környezet ---
 
 describe('GameManager', () => {
@@ -35,14 +44,26 @@ describe('GameManager', () => {
     let mockGameState: IGameState;
     let players: any[];
 
+    // A kliens üzenetét a GameManager által a socketre regisztrált kezelőn keresztül küldjük be
+    const emitFromClient = (socket: { on: jest.Mock }, event: string, data?: unknown) => {
+        const handler = socket.on.mock.calls.filter(([name]) => name === event).pop()?.[1];
+        if (!handler) throw new Error(`No handler registered for ${event}`);
+        handler(data);
+    };
+
     // Minden teszt előtt létrehozunk egy tiszta, alap környezetet.
     beforeEach(() => {
-        // Töröljük a korábbi mock hívásokat
+        // Az előző tesztek függőben lévő időzítői (bot lépés, körlimit) ne fussanak át ebbe a tesztbe
+        jest.clearAllTimers();
+        // Töröljük a korábbi mock hívásokat (a performPlay egy előző teszt el nem használt mockReturnValueOnce értékeit is)
         (initializeGame as jest.Mock).mockClear();
-        (performPlay as jest.Mock).mockClear();
+        (performPlay as jest.Mock).mockReset();
+        (performDiscard as jest.Mock).mockClear();
         (advanceTurn as jest.Mock).mockClear();
+        (resolveRound as jest.Mock).mockClear();
         (getClientGameState as jest.Mock).mockClear();
-        (decideMove as jest.Mock).mockClear();
+        (getSpectatorGameState as jest.Mock).mockClear();
+        (decideMove as jest.Mock).mockReset();
 
         // Egyszerűsített Socket.IO mock
         mockIo = {
@@ -60,31 +81,34 @@ describe('GameManager', () => {
         mockOnGameEnd = jest.fn();
 
         players = [
-            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now() },
-            { userId: 'player-2', username: 'P2', isBot: false, socketId: 'socket-2', joinedAt: Date.now() },
+            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now(), queueId: 'classical' },
+            { userId: 'player-2', username: 'P2', isBot: false, socketId: 'socket-2', joinedAt: Date.now(), queueId: 'classical' },
         ];
 
         // Alapértelmezett gameState, amit a mockolt függvények visszaadnak
         mockGameState = {
             gameId: 'test-game',
-            players: [{ id: 'player-1', name: 'P1', hand: [], score: 0 }, { id: 'player-2', name: 'P2', hand: [], score: 0 }],
+            players: [{ id: 'player-1', name: 'P1', hand: [], score: 0, timeBankMs: 60000 }, { id: 'player-2', name: 'P2', hand: [], score: 0, timeBankMs: 60000 }],
             currentPlayerId: 'player-1',
+            roundStarterId: 'player-1',
             gameStatus: 'playing',
             currentPlayerPhase: 'waiting_for_initial_play',
             drawPile: [],
             discardPile: [],
             carCardsOnBoard: { 'player-1': null, 'player-2': null },
             activeActionCardsOnBoard: { 'player-1': null, 'player-2': null },
-            pendingMetricModifiers: { 'player-1': null, 'player-2': null },
+            pendingMetricModifiers: { 'player-1': [], 'player-2': [] },
             selectedMetricForRound: null,
             roundWinnerId: null,
             winnerId: null,
             lastPlayedCardInstanceId: null,
             currentTurnStartTime: Date.now(),
-            turnTimeLimit: 60000,
+            timeControl: TIME_CONTROL,
             rngSeed: 12345,
             gameLog: [],
             extraTurnPlayerId: null,
+            rules: { matchFormat: { type: 'standard' } },
+            roundsPlayed: 0,
         } as any;
 
         // A mockolt függvények alapértelmezett viselkedése
@@ -95,6 +119,7 @@ describe('GameManager', () => {
             ...state,
             requestingPlayerId: playerId
         }));
+        (getSpectatorGameState as jest.Mock).mockImplementation((state) => ({ ...state, spectator: true }));
     });
 
     it('should initialize correctly, join players to room, and broadcast initial state', () => {
@@ -104,10 +129,10 @@ describe('GameManager', () => {
             requestingPlayerId: playerId
         }));
 
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // Ellenőrizzük, hogy a game-engine helyesen lett-e meghívva
-        expect(initializeGame).toHaveBeenCalledWith(['player-1', 'player-2'], ['P1', 'P2'], expect.any(Number), 60000, true);
+        expect(initializeGame).toHaveBeenCalledWith(['player-1', 'player-2'], ['P1', 'P2'], expect.any(Number), TIME_CONTROL, true, undefined, ENGINE_CONTEXT_MATCHER, {});
 
         // Ellenőrizzük a socket kommunikációt
         expect(mockSocketP1.join).toHaveBeenCalledWith('test-game');
@@ -131,14 +156,14 @@ describe('GameManager', () => {
             .mockReturnValueOnce(updatedState)  // Updated state for P1 after move
             .mockReturnValueOnce(updatedState); // Updated state for P2 after move
 
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // Szimuláljuk a socket eseményt a handlePlayerMove közvetlen hívásával
         const moveData = { cardInstanceId: 'card-123', payload: { selectedMetric: 'speed' } };
         (gameManager as any).handlePlayerMove('player-1', moveData);
 
         // Ellenőrizzük, hogy a performPlay meg lett-e hívva a helyes adatokkal
-        expect(performPlay).toHaveBeenCalledWith(mockGameState, 'player-1', 'card-123', { selectedMetric: 'speed' });
+        expect(performPlay).toHaveBeenCalledWith(mockGameState, 'player-1', 'card-123', { selectedMetric: 'speed' }, ENGINE_CONTEXT_MATCHER, false);
 
         // Ellenőrizzük, hogy patch-eket küldtek (nem teljes állapotot)
         // 1. game:stateUpdate (initial), 2. game:patch (after move)
@@ -146,30 +171,44 @@ describe('GameManager', () => {
         expect(mockSocketP1.emit).toHaveBeenCalledWith('game:patch', expect.any(Array));
     });
 
+    // Bot elleni játék állapota: mindkét kézben van autós kártya, így a motor nem zárja le idő előtt a játékot
+    const botGameState = (currentPlayerId: string): IGameState => ({
+        ...mockGameState,
+        players: [
+            { ...mockGameState.players[0], hand: [{ instanceId: 'p1-card', cardId: 'CAR_AMC_PACERX_1977' }] },
+            { ...mockGameState.players[1], id: 'bot-1', name: 'AI', hand: [{ instanceId: 'bot-card', cardId: 'CAR_AMC_PACERX_1977' }] },
+        ],
+        currentPlayerId,
+        carCardsOnBoard: { 'player-1': null, 'bot-1': null },
+        activeActionCardsOnBoard: { 'player-1': null, 'bot-1': null },
+        pendingMetricModifiers: { 'player-1': [], 'bot-1': [] },
+    });
+
     it('should trigger a bot move if it is the bot\'s turn', () => {
         const botPlayers = [
-            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now() },
-            { userId: 'bot-1', username: 'AI', isBot: true, socketId: 'bot-socket', joinedAt: Date.now() },
+            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now(), queueId: 'classical' },
+            { userId: 'bot-1', username: 'AI', isBot: true, socketId: 'bot-socket', joinedAt: Date.now(), queueId: 'classical' },
         ];
+        (initializeGame as jest.Mock).mockReturnValue(botGameState('player-1'));
 
         // A bot lépését szimuláljuk
-        const botMove = { cardInstanceId: 'bot-card', payload: { selectedMetric: 'hp' } };
+        const botMove = { action: 'play', cardInstanceId: 'bot-card', payload: { selectedMetric: 'hp' } };
         (decideMove as jest.Mock).mockReturnValue(botMove);
 
         // A performPlay-t úgy állítjuk be, hogy a bot körét adja vissza, majd a bot lépése után visszaadja player-1-et
-        const stateAfterHumanMove = { ...mockGameState, currentPlayerId: 'bot-1' };
-        const stateAfterBotMove = { ...mockGameState, currentPlayerId: 'player-1' };
+        const stateAfterHumanMove = botGameState('bot-1');
+        const stateAfterBotMove = botGameState('player-1');
         (performPlay as jest.Mock)
             .mockReturnValueOnce({ newState: stateAfterHumanMove, success: true })  // P1 lépése után
             .mockReturnValueOnce({ newState: stateAfterBotMove, success: true });   // Bot lépése után
 
-        const gameManager = new GameManager('test-game', botPlayers, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        new GameManager('test-game', botPlayers, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // Szimuláljuk, hogy P1 lépett
-        (gameManager as any).handlePlayerMove('player-1', { cardInstanceId: 'p1-card', payload: {} });
+        emitFromClient(mockSocketP1, 'game:playCard', { cardInstanceId: 'p1-card', payload: {} });
 
         // Ellenőrizzük, hogy a performPlay meghívódott P1 lépésével
-        expect(performPlay).toHaveBeenCalledWith(expect.anything(), 'player-1', 'p1-card', {});
+        expect(performPlay).toHaveBeenCalledWith(expect.anything(), 'player-1', 'p1-card', {}, ENGINE_CONTEXT_MATCHER, false);
 
         // Tekerjük előre az időt, hogy a bot setTimeout-ja lefusson
         jest.runAllTimers();
@@ -178,22 +217,108 @@ describe('GameManager', () => {
         expect(decideMove).toHaveBeenCalledWith(stateAfterHumanMove, 'bot-1');
 
         // Ellenőrizzük, hogy a performPlay másodszor is meghívódott, de most már a bot lépésével
-        expect(performPlay).toHaveBeenCalledWith(stateAfterHumanMove, 'bot-1', botMove.cardInstanceId, botMove.payload);
+        expect(performPlay).toHaveBeenCalledWith(stateAfterHumanMove, 'bot-1', botMove.cardInstanceId, botMove.payload, ENGINE_CONTEXT_MATCHER, false);
     });
 
-    it('should end the game if a player disconnects', () => {
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+    it('should end the game if a player disconnects and does not return within the grace period', () => {
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, reconnectGracePeriodSeconds: 20 }, mockOnGameEnd);
 
         gameManager.handlePlayerDisconnect('player-1');
 
+        // A játék szünetel, az ellenfél visszaszámlálást kap
+        expect(mockIo.emit).toHaveBeenCalledWith('game:opponentDisconnected', expect.objectContaining({ playerId: 'player-1', gracePeriodSeconds: 20 }));
+        expect(mockOnGameEnd).not.toHaveBeenCalled();
+
+        // A türelmi idő lejárta után a másik játékos nyer (a 60 mp-es körlimit nem fut le közben)
+        jest.advanceTimersByTime(20000);
+
         // Ellenőrizzük, hogy a játék vége esemény ki lett-e küldve
-        expect(mockIo.emit).toHaveBeenCalledWith('game:end', { winnerId: 'player-2', gameStatus: 'win' });
+        expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-2', gameStatus: 'win' }));
 
         // Ellenőrizzük, hogy a cleanup callback meghívódott-e
         expect(mockOnGameEnd).toHaveBeenCalledWith('test-game');
     });
+    it('should end the game immediately on disconnect when the grace period is disabled', () => {
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, reconnectGracePeriodSeconds: 0 }, mockOnGameEnd);
+
+        gameManager.handlePlayerDisconnect('player-1');
+
+        expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-2', gameStatus: 'win' }));
+        expect(mockOnGameEnd).toHaveBeenCalledWith('test-game');
+    });
+    it('should report the match format, the round scores and the series standing in game:end', () => {
+        mockGameState.rules.matchFormat = { type: 'first_to', roundWins: 3 };
+        mockGameState.roundsPlayed = 4;
+        mockGameState.players[1].score = 3;
+        const series = { ...createSeries(['player-1', 'player-2'], 3), gamesPlayed: 1, wins: { 'player-1': 0, 'player-2': 1 } };
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, reconnectGracePeriodSeconds: 0, series }, mockOnGameEnd);
+
+        gameManager.handlePlayerDisconnect('player-1');
+
+        expect(mockIo.emit).toHaveBeenCalledWith('game:end', {
+            winnerId: 'player-2',
+            gameStatus: 'win',
+            matchFormat: { type: 'first_to', roundWins: 3 },
+            roundsPlayed: 4,
+            scores: { 'player-1': 0, 'player-2': 3 },
+            series: expect.objectContaining({ gamesPlayed: 2, wins: { 'player-1': 0, 'player-2': 2 }, isComplete: true, winnerId: 'player-2' }),
+        });
+    });
+    it('should resume the game with the frozen turn time when the player reconnects in time', () => {
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, reconnectGracePeriodSeconds: 30 }, mockOnGameEnd);
+
+        // 40 mp telik el a körből, majd P1 lecsatlakozik
+        jest.advanceTimersByTime(40000);
+        gameManager.handlePlayerDisconnect('player-1', 'socket-1');
+
+        // Szünet alatt a másik játékos nem léphet
+        emitFromClient(mockSocketP1, 'game:playCard', { cardInstanceId: 'card-123' });
+        expect(performPlay).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(25000);
+        const newMockSocket = { id: 'new-socket-id', join: jest.fn(), on: jest.fn(), removeAllListeners: jest.fn(), emit: jest.fn() };
+        gameManager.handlePlayerReconnect('player-1', newMockSocket as unknown as Socket);
+        expect(mockIo.emit).toHaveBeenCalledWith('game:opponentReconnected', { playerId: 'player-1' });
+
+        // A régi socket késői disconnect-je már nem számít
+        gameManager.handlePlayerDisconnect('player-1', 'socket-1');
+
+        // A körből 20 mp maradt: 19 mp után még fut a játék, 20 mp után lejár az idő
+        jest.advanceTimersByTime(19000);
+        expect(mockOnGameEnd).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1000);
+        expect(mockOnGameEnd).toHaveBeenCalledWith('test-game');
+    });
+    it('should hold the round resolution and the next turn while the game is paused', () => {
+        const bothCardsState = {
+            ...mockGameState,
+            currentPlayerPhase: 'both_cards_on_board',
+            carCardsOnBoard: { 'player-1': { instanceId: 'car-1', cardId: 'CAR_1' }, 'player-2': { instanceId: 'car-2', cardId: 'CAR_2' } },
+        };
+        (performPlay as jest.Mock).mockReturnValue({ newState: bothCardsState, success: true });
+        (resolveRound as jest.Mock).mockImplementationOnce((state: IGameState) => ({ ...state, roundWinnerId: 'player-1' }));
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, reconnectGracePeriodSeconds: 30 }, mockOnGameEnd);
+
+        emitFromClient(mockSocketP1, 'game:playCard', { cardInstanceId: 'card-123' });
+        gameManager.handlePlayerDisconnect('player-2', 'socket-2');
+
+        // Szünet alatt sem a kör lezárása, sem a körváltás nem történik meg
+        jest.advanceTimersByTime(10000);
+        expect(resolveRound).not.toHaveBeenCalled();
+        expect(advanceTurn).not.toHaveBeenCalled();
+
+        const newMockSocket = { id: 'new-socket-id', join: jest.fn(), on: jest.fn(), removeAllListeners: jest.fn(), emit: jest.fn() };
+        gameManager.handlePlayerReconnect('player-2', newMockSocket as unknown as Socket);
+
+        // A folytatás után a késleltetések elölről indulnak, az új kör a folytatás után kezdődik
+        jest.advanceTimersByTime(1000);
+        expect(resolveRound).toHaveBeenCalledTimes(1);
+        jest.advanceTimersByTime(1500);
+        expect(advanceTurn).toHaveBeenCalledWith(expect.objectContaining({ currentPlayerPhase: 'round_resolved' }), 'player-1', ENGINE_CONTEXT_MATCHER);
+        expect((advanceTurn as jest.Mock).mock.calls[0][2].now()).toBe(Date.now());
+    });
     it('should ignore moves from a player who is not on turn', () => {
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // P2 próbál lépni, pedig P1 van soron
         (gameManager as any).handlePlayerMove('player-2', { cardInstanceId: 'any-card' });
@@ -207,7 +332,7 @@ describe('GameManager', () => {
             message: 'Szabálytalan lap'
         });
 
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         (gameManager as any).handlePlayerMove('player-1', { cardInstanceId: 'invalid-card' });
 
@@ -218,7 +343,7 @@ describe('GameManager', () => {
     // jest.mock('../shared/game-engine', () => ({ ... endGameByTimeout: jest.fn() ... }));
 
     it('should handle turn timeout', () => {
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // Tekerjük előre az időt, hogy a timeout lefusson
         jest.runAllTimers();
@@ -228,9 +353,149 @@ describe('GameManager', () => {
         expect(mockOnGameEnd).toHaveBeenCalledWith('test-game');
         expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-2' }));
     });
+    it('should time out the player on turn when their own time bank runs out', () => {
+        mockGameState.players[0].timeBankMs = 15000;
+        new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
+
+        // Az időzítő a soron lévő játékos bankjához igazodik, nem a kezdő időhöz
+        jest.advanceTimersByTime(14999);
+        expect(mockOnGameEnd).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-2', gameStatus: 'win' }));
+    });
+    describe('turn timeout policies', () => {
+        // A játékosok helyett lejátszott lépés után a soron lévő játékos órája újraindul
+        const withCarsInHand = (state: IGameState): IGameState => ({
+            ...state,
+            players: state.players.map(p => ({ ...p, hand: [{ instanceId: `${p.id}-car`, cardId: 'CAR_AMC_PACERX_1977' }] })),
+        });
+
+        beforeEach(() => {
+            mockGameState = withCarsInHand(mockGameState);
+            (initializeGame as jest.Mock).mockReturnValue(mockGameState);
+            (performPlay as jest.Mock).mockImplementation(() => ({ success: true, newState: { ...mockGameState, currentTurnStartTime: Date.now() } }));
+            (decideMove as jest.Mock).mockReturnValue({ action: 'play', cardInstanceId: 'player-1-car', payload: { selectedMetric: 'hp' } });
+        });
+
+        it('should play for the timed-out player instead of ending the game with the auto_play policy', () => {
+            new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, timeoutPolicy: { type: 'auto_play' } }, mockOnGameEnd);
+
+            jest.advanceTimersByTime(60000);
+
+            expect(decideMove).toHaveBeenCalledWith(mockGameState, 'player-1');
+            expect(performPlay).toHaveBeenCalledWith(mockGameState, 'player-1', 'player-1-car', { selectedMetric: 'hp' }, ENGINE_CONTEXT_MATCHER, true);
+            expect(mockIo.emit).toHaveBeenCalledWith('game:timeout', { playerId: 'player-1', policy: 'auto_play', strikes: 0 });
+            expect(mockOnGameEnd).not.toHaveBeenCalled();
+        });
+
+        it('should end the game only after the configured number of consecutive timeouts with the strikes policy', () => {
+            new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, timeoutPolicy: { type: 'strikes', maxConsecutiveTimeouts: 2 } }, mockOnGameEnd);
+
+            // Első időtúllépés: a bot lép helyette
+            jest.advanceTimersByTime(60000);
+            expect(mockIo.emit).toHaveBeenCalledWith('game:timeout', { playerId: 'player-1', policy: 'strikes', strikes: 1 });
+            expect(mockOnGameEnd).not.toHaveBeenCalled();
+
+            // Második, zsinórban elkövetett időtúllépés: vereség
+            jest.advanceTimersByTime(60000);
+            expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-2', gameStatus: 'win' }));
+            expect(mockOnGameEnd).toHaveBeenCalledWith('test-game');
+        });
+
+        it('should leave the time bank of the timed-out player intact so that they can still move afterwards', () => {
+            // Valódi motorral és bottal: a helyettes lépés nem a kiürült bankot terheli
+            const engine = jest.requireActual('../shared/game-engine');
+            (initializeGame as jest.Mock).mockImplementation(engine.initializeGame);
+            (performPlay as jest.Mock).mockImplementation(engine.performPlay);
+            (advanceTurn as jest.Mock).mockImplementation(engine.advanceTurn);
+            (decideMove as jest.Mock).mockImplementation(jest.requireActual('../src/ai-manager').decideMove);
+            const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, timeoutPolicy: { type: 'strikes', maxConsecutiveTimeouts: 2 } }, mockOnGameEnd);
+            const state = (): IGameState => gameManager['gameState'];
+
+            jest.advanceTimersByTime(60000);
+            expect(mockIo.emit).toHaveBeenCalledWith('game:timeout', { playerId: 'player-1', policy: 'strikes', strikes: 1 });
+            expect(state().players.find(p => p.id === 'player-1')!.timeBankMs).toBe(60000);
+
+            // A kör végéig az ellenfél lép, a lezárás és a körváltás időzítői lefutnak
+            while (state().currentPlayerId !== 'player-1' || state().currentPlayerPhase !== 'waiting_for_initial_play') {
+                if (state().currentPlayerId === 'player-2' && state().currentPlayerPhase === 'waiting_for_initial_play') {
+                    const move = (jest.requireActual('../src/ai-manager').decideMove)(state(), 'player-2');
+                    emitFromClient(mockSocketP2, 'game:playCard', { cardInstanceId: move.cardInstanceId, payload: move.payload });
+                } else {
+                    jest.advanceTimersByTime(1000);
+                }
+                expect(mockOnGameEnd).not.toHaveBeenCalled();
+            }
+
+            // A játékos a következő körében a kezdő idejének felénél is még léphet
+            jest.advanceTimersByTime(30000);
+            const move = (jest.requireActual('../src/ai-manager').decideMove)(state(), 'player-1');
+            emitFromClient(mockSocketP1, 'game:playCard', { cardInstanceId: move.cardInstanceId, payload: move.payload });
+
+            expect(mockOnGameEnd).not.toHaveBeenCalled();
+            const ownPlays = gameManager.getEventLog().flatMap(e => (e.type === 'PlayCard' && e.playerId === 'player-1' ? [e.automatic ?? false] : []));
+            expect(ownPlays).toEqual([true, false]);
+        });
+    });
+    it('should apply the pending action instead of ending the game when the reaction window expires', () => {
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
+        const reactionWindowState = {
+            ...mockGameState,
+            players: [
+                { id: 'player-1', name: 'P1', hand: [{ instanceId: 'car-1', cardId: 'CAR_AMC_PACERX_1977' }], score: 0, timeBankMs: 60000 },
+                { id: 'player-2', name: 'P2', hand: [], score: 0, timeBankMs: 60000 },
+            ],
+            currentPlayerId: 'player-2',
+            currentPlayerPhase: 'reaction_window',
+            activeActionCardsOnBoard: { 'player-1': { instanceId: 'action-1', cardId: 'ACTION_TIME_BOOST' }, 'player-2': null },
+            pendingReaction: { actingPlayerId: 'player-1', reactingPlayerId: 'player-2', actionCardInstanceId: 'action-1' },
+            rules: { ...mockGameState.rules, reactionWindowSeconds: 5 },
+        };
+        (performPlay as jest.Mock).mockReturnValue({ success: true, newState: reactionWindowState });
+
+        (gameManager as unknown as { handlePlayerMove: (playerId: string, data: { cardInstanceId: string }) => void })
+            .handlePlayerMove('player-1', { cardInstanceId: 'action-1' });
+        jest.advanceTimersByTime(5000);
+
+        expect(mockOnGameEnd).not.toHaveBeenCalled();
+        expect(gameManager.getSummary()).toMatchObject({ currentPlayerId: 'player-1', phase: 'waiting_for_car_card_after_action' });
+        expect(gameManager.getEventLog().map(e => e.type)).toEqual(['GameStarted', 'PlayCard', 'PassReaction']);
+    });
+    it('should save the finished match to the match history', async () => {
+        const matchHistory = new InMemoryMatchHistoryStore();
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, matchHistory }, mockOnGameEnd);
+
+        jest.runAllTimers();
+
+        const record = await matchHistory.getMatch('test-game');
+        expect(record).toMatchObject({
+            gameId: 'test-game',
+            seed: gameManager.getSeed(),
+            winnerId: 'player-2',
+            gameStatus: 'win',
+            durationMs: 60000,
+        });
+        expect(record?.participants.map(p => p.userId)).toEqual(['player-1', 'player-2']);
+        expect(record?.events.map(e => e.type)).toEqual(['GameStarted', 'Timeout']);
+        expect(await matchHistory.getMatchesByPlayer('player-1')).toHaveLength(1);
+    });
+    it('should register the discard listener and route discards to performDiscard', () => {
+        const mustDiscardState = { ...mockGameState, currentPlayerPhase: 'must_discard' };
+        (initializeGame as jest.Mock).mockReturnValue(mustDiscardState);
+        (performDiscard as jest.Mock).mockReturnValue({ success: false, message: 'Nem neked kell lapot dobnod.' });
+
+        new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
+
+        expect(mockSocketP1.on).toHaveBeenCalledWith('game:discardCard', expect.any(Function));
+
+        emitFromClient(mockSocketP2, 'game:discardCard', { cardInstanceId: 'card-123' });
+
+        expect(performDiscard).toHaveBeenCalledWith(mustDiscardState, 'player-2', 'card-123', ENGINE_CONTEXT_MATCHER, false);
+        expect(mockSocketP2.emit).toHaveBeenCalledWith('game:error', { message: 'Nem neked kell lapot dobnod.' });
+    });
     it('should handle a player reconnecting with a new socket', () => {
         // 1. Létrehozzuk a GameManager-t a normál játékosokkal
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // 2. Létrehozunk egy új, "kamu" socketet a visszacsatlakozáshoz
         const newMockSocket = {
@@ -269,7 +534,7 @@ describe('GameManager', () => {
             .mockReturnValueOnce(updatedState)  // After move for P1
             .mockReturnValueOnce(updatedState); // After move for P2
 
-        const gameManager = new GameManager('test-game', players, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // Clear the initial emit calls
         mockSocketP1.emit.mockClear();
@@ -293,28 +558,22 @@ describe('GameManager', () => {
 
     it('should end the game with the bot as the loser if it cannot make a move', () => {
         const botPlayers = [
-            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now() },
-            { userId: 'bot-1', username: 'AI', isBot: true, socketId: 'bot-socket', joinedAt: Date.now() },
+            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now(), queueId: 'classical' },
+            { userId: 'bot-1', username: 'AI', isBot: true, socketId: 'bot-socket', joinedAt: Date.now(), queueId: 'classical' },
         ];
 
         // 1. A bot logikáját úgy mockoljuk, hogy jelezze: nem tud lépni.
         (decideMove as jest.Mock).mockReturnValue(null);
 
         // 2. A játékállapotot úgy állítjuk be, hogy a bot következzen.
-        const stateWhereBotIsCurrentPlayer = {
-            ...mockGameState,
-            players: [
-                { id: 'player-1', name: 'P1', hand: [], score: 0 },
-                { id: 'bot-1', name: 'AI', hand: [], score: 0 }
-            ],
-            currentPlayerId: 'bot-1'
-        };
+        (initializeGame as jest.Mock).mockReturnValue(botGameState('player-1'));
+        const stateWhereBotIsCurrentPlayer = botGameState('bot-1');
         (performPlay as jest.Mock).mockReturnValue({ newState: stateWhereBotIsCurrentPlayer, success: true });
 
-        const gameManager = new GameManager('test-game', botPlayers, mockIo, { turnTimeLimitSeconds: 60 }, mockOnGameEnd);
+        new GameManager('test-game', botPlayers, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
 
         // 3. Szimuláljuk az emberi játékos lépését, ami után a bot kerül sorra.
-        (gameManager as any).handlePlayerMove('player-1', { cardInstanceId: 'p1-card' });
+        emitFromClient(mockSocketP1, 'game:playCard', { cardInstanceId: 'p1-card' });
 
         // 4. Tekerjük előre az időt, hogy a bot "gondolkodási ideje" lefusson.
         jest.runAllTimers();
@@ -329,4 +588,38 @@ describe('GameManager', () => {
         // A győztes az emberi játékos lett?
         expect(mockIo.emit).toHaveBeenCalledWith('game:end', expect.objectContaining({ winnerId: 'player-1' }));
     });
+    describe('spectators', () => {
+        const spectatorSocket = () => ({ id: 'spectator-socket', join: jest.fn(), leave: jest.fn(), on: jest.fn(), removeAllListeners: jest.fn(), emit: jest.fn() });
+
+        it('should send the spectator view to a new spectator and reject the players of the game', () => {
+            const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL }, mockOnGameEnd);
+            const socket = spectatorSocket();
+
+            expect(gameManager.addSpectator('viewer-1', socket as unknown as Socket)).toEqual({ success: true });
+            expect(socket.join).toHaveBeenCalledWith('test-game:spectators');
+            expect(socket.emit).toHaveBeenCalledWith('game:stateUpdate', expect.objectContaining({ spectator: true }));
+            expect(gameManager.getSummary()).toMatchObject({ spectatorCount: 1 });
+
+            expect(gameManager.addSpectator('player-1', spectatorSocket() as unknown as Socket).success).toBe(false);
+            expect(gameManager.getSpectatorCount()).toBe(1);
+        });
+
+        it('should delay the spectator patches by the configured delay', () => {
+            const nextState = { ...mockGameState, currentPlayerId: 'player-2' };
+            (performPlay as jest.Mock).mockReturnValue({ success: true, newState: nextState });
+            const gameManager = new GameManager('test-game', players, mockIo, { timeControl: TIME_CONTROL, spectatorDelaySeconds: 10 }, mockOnGameEnd);
+            gameManager.addSpectator('viewer-1', spectatorSocket() as unknown as Socket);
+            const spectatorRoomEmit = jest.fn();
+            (mockIo.to as jest.Mock).mockImplementation((room: string) => (room === 'test-game:spectators' ? { emit: spectatorRoomEmit } : mockIo));
+
+            (gameManager as unknown as { handlePlayerMove: (playerId: string, data: { cardInstanceId: string }) => void })
+                .handlePlayerMove('player-1', { cardInstanceId: 'card-1' });
+            expect(spectatorRoomEmit).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(10000);
+            expect(spectatorRoomEmit).toHaveBeenCalledWith('game:patch', expect.arrayContaining([
+                expect.objectContaining({ path: '/currentPlayerId', value: 'player-2' }),
+            ]));
+        });
+    });
 });
\ No newline at end of file
@@ -76,11 +76,11 @@ describe('Server Index - Mock Behavior', () => {
     it('should create GameManager instance with mocked constructor', () => {
         const mockGameId = 'test-game-123';
         const mockPlayers = [
-            { userId: 'p1', username: 'Player1', isBot: false, socketId: 's1', joinedAt: Date.now() },
-            { userId: 'p2', username: 'Player2', isBot: false, socketId: 's2', joinedAt: Date.now() },
+            { userId: 'p1', username: 'Player1', isBot: false, socketId: 's1', joinedAt: Date.now(), queueId: 'classical' },
+            { userId: 'p2', username: 'Player2', isBot: false, socketId: 's2', joinedAt: Date.now(), queueId: 'classical' },
         ];
         const mockIo = { on: jest.fn(), emit: jest.fn() };
-        const mockConfig = { turnTimeLimitSeconds: 60 };
+        const mockConfig = { timeControl: { initialTimeMs: 60000, incrementMs: 0 } };
         const mockCallback = jest.fn();
 
         (GameManager as unknown as jest.Mock).mockImplementation(() => ({
@@ -145,8 +145,8 @@ describe('Server Index - Game Lifecycle Logic', () => {
     it('should create GameManager when match-found event is triggered', () => {
         const mockIo = { on: jest.fn(), emit: jest.fn(), to: jest.fn().mockReturnThis() };
         const players = [
-            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now() },
-            { userId: 'player-2', username: 'P2', isBot: false, socketId: 'socket-2', joinedAt: Date.now() },
+            { userId: 'player-1', username: 'P1', isBot: false, socketId: 'socket-1', joinedAt: Date.now(), queueId: 'classical' },
+            { userId: 'player-2', username: 'P2', isBot: false, socketId: 'socket-2', joinedAt: Date.now(), queueId: 'classical' },
         ];
 
         // Simulate the match-found callback
@@ -155,7 +155,7 @@ describe('Server Index - Game Lifecycle Logic', () => {
                 'test-game-id',
                 data.players,
                 mockIo as any,
-                { turnTimeLimitSeconds: 60 },
+                { timeControl: { initialTimeMs: 60000, incrementMs: 0 } },
                 jest.fn()
             );
         });
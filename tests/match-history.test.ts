@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMatchHistoryStore, MatchRecord } from '../src/match-history';
+import { IGameState } from '../shared/interfaces';
+
+const createRecord = (gameId: string, playerIds: string[], endedAt: number): MatchRecord => ({
+  gameId,
+  participants: playerIds.map(id => ({ userId: id, username: id.toUpperCase(), isBot: false })),
+  seed: 42,
+  startedAt: endedAt - 1000,
+  endedAt,
+  durationMs: 1000,
+  winnerId: playerIds[0],
+  gameStatus: 'win',
+  endReason: 'Game finished normally.',
+  finalState: { gameId } as IGameState,
+  events: [],
+});
+
+describe('FileMatchHistoryStore', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'match-history-'));
+    filePath = path.join(tmpDir, 'nested', 'history.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns nothing before the first match is saved', async () => {
+    const store = new FileMatchHistoryStore(filePath);
+
+    expect(await store.getMatch('game-1')).toBeNull();
+    expect(await store.getMatchesByPlayer('p1')).toEqual([]);
+  });
+
+  it('persists matches across store instances and queries them by player, newest first', async () => {
+    const store = new FileMatchHistoryStore(filePath);
+    await Promise.all([
+      store.saveMatch(createRecord('game-1', ['p1', 'p2'], 1000)),
+      store.saveMatch(createRecord('game-2', ['p2', 'p3'], 2000)),
+      store.saveMatch(createRecord('game-3', ['p1', 'p3'], 3000)),
+    ]);
+
+    const reopened = new FileMatchHistoryStore(filePath);
+    expect((await reopened.getMatchesByPlayer('p1')).map(r => r.gameId)).toEqual(['game-3', 'game-1']);
+    expect((await reopened.getMatchesByPlayer('p3', 1)).map(r => r.gameId)).toEqual(['game-3']);
+    expect(await reopened.getMatch('game-2')).toEqual(createRecord('game-2', ['p2', 'p3'], 2000));
+  });
+
+  it('skips a corrupt line instead of failing the whole query', async () => {
+    const store = new FileMatchHistoryStore(filePath);
+    await store.saveMatch(createRecord('game-1', ['p1', 'p2'], 1000));
+    fs.appendFileSync(filePath, '{"gameId": "broken\n');
+
+    expect(await store.getMatchesByPlayer('p1')).toHaveLength(1);
+  });
+});
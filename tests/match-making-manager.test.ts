@@ -0,0 +1,85 @@
+import { Server, Socket } from 'socket.io';
+import MatchmakingManager, { findRankedPair, MatchFoundEvent, PlayerInLobby } from '../src/match-making-manager';
+
+const RANKED = { initialRatingWindow: 100, windowGrowthPerSecond: 10, maxRatingWindow: 500 };
+const QUEUE = { timeControl: { initialTimeMs: 300000, incrementMs: 5000 }, timeoutPolicy: { type: 'forfeit' as const } };
+
+const waiting = (userId: string, rating: number, joinedAt = 0): PlayerInLobby =>
+  ({ userId, username: userId, socketId: `socket-${userId}`, joinedAt, isBot: false, queueId: 'ranked', rating });
+
+describe('findRankedPair', () => {
+  it('pairs the longest waiting player with the closest rating inside both windows', () => {
+    const players = [waiting('a', 1500, 0), waiting('b', 1590, 1000), waiting('c', 1540, 2000)];
+
+    expect(findRankedPair(players, RANKED, 2000)?.map(p => p.userId)).toEqual(['a', 'c']);
+    expect(findRankedPair([waiting('a', 1500), waiting('b', 1700)], RANKED, 0)).toBeNull();
+  });
+});
+
+describe('MatchmakingManager ranked queue', () => {
+  let manager: MatchmakingManager;
+  let matches: MatchFoundEvent[];
+  const socket = (id: string) => ({ id, emit: jest.fn() }) as unknown as Socket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    const io = { emit: jest.fn() } as unknown as Server;
+    manager = new MatchmakingManager(io, {
+      maxPlayersPerMatch: 2,
+      aiEnabled: true,
+      aiDelayMs: 500,
+      humanOnlyMaxWaitMs: 8000,
+      queues: { ranked: { ...QUEUE, ranked: RANKED } },
+      defaultQueueId: 'ranked',
+    });
+    matches = [];
+    manager.on('match-found', (match: MatchFoundEvent) => matches.push(match));
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('widens the rating window while waiting and never adds a bot', () => {
+    manager.joinLobby(socket('s1'), 'p1', 'P1', { queueId: 'ranked', rating: 1500 });
+    jest.advanceTimersByTime(5000);
+    expect(matches).toHaveLength(0);
+
+    manager.joinLobby(socket('s2'), 'p2', 'P2', { queueId: 'ranked', rating: 1800 });
+    expect(matches).toHaveLength(0);
+
+    // A később érkező ablaka 20 mp után éri el a 300 pontot
+    jest.advanceTimersByTime(19000);
+    expect(matches).toHaveLength(0);
+    jest.advanceTimersByTime(1000);
+    expect(matches).toHaveLength(1);
+    expect(matches[0].players.map(p => p.userId)).toEqual(['p1', 'p2']);
+  });
+});
+
+describe('MatchmakingManager queue config', () => {
+  it('passes the match format and best-of-N of the queue to the match and rejects an even best-of', () => {
+    jest.useFakeTimers();
+    const io = { emit: jest.fn() } as unknown as Server;
+    const config = {
+      maxPlayersPerMatch: 2,
+      aiEnabled: false,
+      aiDelayMs: 500,
+      humanOnlyMaxWaitMs: 8000,
+      defaultQueueId: 'series',
+    };
+    const seriesQueue = { ...QUEUE, setup: { matchFormat: { type: 'first_to' as const, roundWins: 5 } }, bestOf: 3 };
+    const manager = new MatchmakingManager(io, { ...config, queues: { series: seriesQueue } });
+    const matches: MatchFoundEvent[] = [];
+    manager.on('match-found', (match: MatchFoundEvent) => matches.push(match));
+
+    manager.joinLobby({ id: 's1', emit: jest.fn() } as unknown as Socket, 'p1', 'P1');
+    manager.joinLobby({ id: 's2', emit: jest.fn() } as unknown as Socket, 'p2', 'P2');
+    expect(matches[0]).toMatchObject({ queueId: 'series', queue: seriesQueue });
+
+    expect(() => new MatchmakingManager(io, { ...config, queues: { series: { ...seriesQueue, bestOf: 4 } } })).toThrow('bestOf');
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+});
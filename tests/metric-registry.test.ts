@@ -0,0 +1,22 @@
+import { METRIC_REGISTRY, CORE_METRICS, compareMetricValues, getMetricDefinition, isKnownMetric } from '../shared/metric-registry';
+import { MetricType } from '../shared/interfaces';
+
+describe('Metric registry', () => {
+  it('has unique ids and source columns, with every core metric required', () => {
+    expect(new Set(METRIC_REGISTRY.map(m => m.id)).size).toBe(METRIC_REGISTRY.length);
+    expect(new Set(METRIC_REGISTRY.map(m => m.sourceColumn)).size).toBe(METRIC_REGISTRY.length);
+    CORE_METRICS.forEach(metric => expect(getMetricDefinition(metric).required).toBe(true));
+  });
+
+  it('compares values in the direction of the metric', () => {
+    expect(compareMetricValues('hp', 300, 200)).toBe(1);
+    expect(compareMetricValues('accel', 4.1, 5.2)).toBe(1);
+    expect(compareMetricValues('braking60', 120, 100)).toBe(-1);
+    expect(compareMetricValues('weightPerHp', 10, 10)).toBe(0);
+  });
+
+  it('rejects unknown metrics', () => {
+    expect(isKnownMetric('price')).toBe(false);
+    expect(() => getMetricDefinition('price' as MetricType)).toThrow('Unknown metric: price');
+  });
+});
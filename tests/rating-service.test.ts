@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  calculateGlickoUpdate,
+  createInitialRating,
+  FileRatingStore,
+  getCurrentDeviation,
+  InMemoryRatingStore,
+  parseLeaderboardPaging,
+  RatingService,
+} from '../src/rating-service';
+import { Season } from '../src/seasons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const human = (userId: string) => ({ userId, username: userId.toUpperCase(), isBot: false });
+
+describe('Glicko rating', () => {
+  it('moves equal players symmetrically and shrinks their deviation', () => {
+    const start = { rating: 1500, deviation: 200 };
+    const winner = calculateGlickoUpdate(start, start, 1);
+    const loser = calculateGlickoUpdate(start, start, 0);
+
+    expect(winner.rating).toBeGreaterThan(1500);
+    expect(winner.rating - 1500).toBeCloseTo(1500 - loser.rating, 6);
+    expect(winner.deviation).toBeLessThan(200);
+    expect(calculateGlickoUpdate(start, start, 0.5).rating).toBeCloseTo(1500, 6);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const strong = { rating: 1800, deviation: 80 };
+    const weak = { rating: 1400, deviation: 80 };
+
+    const upset = calculateGlickoUpdate(weak, strong, 1).rating - weak.rating;
+    const expectedWin = calculateGlickoUpdate(strong, weak, 1).rating - strong.rating;
+    expect(upset).toBeGreaterThan(expectedWin);
+  });
+
+  it('grows the deviation with inactivity up to the starting value', () => {
+    const rating = { ...createInitialRating('p1', 'P1'), deviation: 50, lastPlayedAt: 0 };
+
+    expect(getCurrentDeviation(rating, 0)).toBe(50);
+    expect(getCurrentDeviation(rating, 10 * DAY_MS)).toBeGreaterThan(50);
+    expect(getCurrentDeviation(rating, 1000 * DAY_MS)).toBe(350);
+  });
+});
+
+describe('RatingService', () => {
+  it('updates both players and skips games against bots', async () => {
+    const service = new RatingService(new InMemoryRatingStore());
+
+    const changes = await service.recordGame({ gameId: 'g1', players: [human('p1'), human('p2')], winnerId: 'p1', playedAt: 1000 });
+    expect(changes).toEqual([
+      expect.objectContaining({ playerId: 'p1', before: 1500, delta: expect.any(Number) }),
+      expect.objectContaining({ playerId: 'p2', before: 1500 }),
+    ]);
+    expect(changes![0].delta).toBeGreaterThan(0);
+    expect(changes![1].delta).toBe(-changes![0].delta);
+    expect(await service.getRating('p2')).toMatchObject({ username: 'P2', gamesPlayed: 1, losses: 1 });
+
+    const botGame = await service.recordGame({ gameId: 'g2', players: [human('p1'), { userId: 'bot-1', username: 'AI', isBot: true }], winnerId: 'p1', playedAt: 2000 });
+    expect(botGame).toBeNull();
+    expect((await service.getRating('p1')).gamesPlayed).toBe(1);
+  });
+
+  it('applies concurrent results one after the other', async () => {
+    const service = new RatingService(new InMemoryRatingStore());
+
+    await Promise.all([
+      service.recordGame({ gameId: 'g1', players: [human('p1'), human('p2')], winnerId: 'p1', playedAt: 1000 }),
+      service.recordGame({ gameId: 'g2', players: [human('p1'), human('p3')], winnerId: null, playedAt: 1000 }),
+    ]);
+
+    expect(await service.getRating('p1')).toMatchObject({ gamesPlayed: 2, wins: 1, draws: 1 });
+  });
+});
+
+describe('Seasons and leaderboards', () => {
+  const seasons: Season[] = [
+    { id: 's1', name: 'Season 1', startsAt: 0, endsAt: 100 * DAY_MS },
+    { id: 's2', name: 'Season 2', startsAt: 100 * DAY_MS, endsAt: 200 * DAY_MS },
+  ];
+  const rules = { placementGames: 3, ratingCarryOver: 0.5, resetDeviation: 250 };
+  const playGames = async (service: RatingService, count: number, startAt: number) => {
+    for (let i = 0; i < count; i++) {
+      await service.recordGame({ gameId: `g${startAt + i}`, players: [human('p1'), human('p2')], winnerId: 'p1', playedAt: startAt + i });
+    }
+  };
+
+  it('lists only players who finished their placement games on a season board', async () => {
+    const service = new RatingService(new InMemoryRatingStore(), { seasons, seasonRules: rules });
+    await playGames(service, 2, 1000);
+    const s1 = seasons[0];
+
+    expect((await service.getLeaderboard(s1, 0, 10)).total).toBe(0);
+    await playGames(service, 1, 2000);
+
+    const board = await service.getLeaderboard(s1, 0, 10);
+    expect(board.entries.map(e => [e.rank, e.playerId, e.gamesPlayed])).toEqual([[1, 'p1', 3], [2, 'p2', 3]]);
+    expect((await service.getLeaderboard(null, 1, 1)).entries).toEqual([expect.objectContaining({ rank: 2, playerId: 'p2' })]);
+  });
+
+  it('starts the next season from a soft reset of the previous season rating', async () => {
+    const service = new RatingService(new InMemoryRatingStore(), { seasons, seasonRules: rules });
+    await playGames(service, 3, 1000);
+    const endOfSeason1 = (await service.getSeasonRating('p1', seasons[0])).rating;
+
+    const [change] = (await service.recordGame({ gameId: 'next', players: [human('p1'), human('p2')], winnerId: 'p2', playedAt: 100 * DAY_MS }))!;
+    expect(change.season).toMatchObject({ seasonId: 's2', before: Math.round(1500 + (endOfSeason1 - 1500) * 0.5), placementGamesRemaining: 2 });
+    // Az összesített értékszám nem áll vissza
+    expect(change.before).toBe(Math.round(endOfSeason1));
+  });
+
+  it('resolves the requested season and validates paging', () => {
+    const service = new RatingService(new InMemoryRatingStore(), { seasons });
+
+    expect(service.resolveSeason(undefined)).toEqual({ success: true, season: null });
+    expect(service.resolveSeason('current', 150 * DAY_MS)).toEqual({ success: true, season: seasons[1] });
+    expect(service.resolveSeason('s9').success).toBe(false);
+    expect(parseLeaderboardPaging(undefined, '500')).toEqual({ success: true, offset: 0, limit: 100 });
+    expect(parseLeaderboardPaging('x', undefined).success).toBe(false);
+  });
+});
+
+describe('FileRatingStore', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ratings-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('persists ratings across store instances', async () => {
+    const filePath = path.join(tmpDir, 'nested', 'ratings.json');
+    const store = new FileRatingStore(filePath);
+    expect(await store.getRating('p1')).toBeNull();
+
+    await store.saveRatings([{ ...createInitialRating('p1', 'P1'), rating: 1600 }]);
+    await store.saveRatings([createInitialRating('p2', 'P2')]);
+
+    await store.saveRatings([createInitialRating('p1', 'P1')], 'season:s1');
+
+    const reopened = new FileRatingStore(filePath);
+    expect((await reopened.getAllRatings()).map(r => [r.playerId, r.rating])).toEqual([['p1', 1600], ['p2', 1500]]);
+    expect(await reopened.getAllRatings('season:s1')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { Server } from 'socket.io';
+import RematchManager, { EndedGame, closeSeries, createSeries, recordSeriesResult } from '../src/rematch-manager';
+import { MatchFoundEvent } from '../src/match-making-manager';
+
+const QUEUE = { timeControl: { initialTimeMs: 180000, incrementMs: 2000 }, timeoutPolicy: { type: 'strikes' as const, maxConsecutiveTimeouts: 3 } };
+const WINDOW_MS = 30000;
+
+const endedGame = (overrides: Partial<EndedGame> = {}): EndedGame => ({
+  gameId: 'game-1',
+  players: [
+    { userId: 'alice', username: 'Alice', isBot: false },
+    { userId: 'bob', username: 'Bob', isBot: false },
+  ],
+  queueId: 'blitz',
+  queue: QUEUE,
+  series: recordSeriesResult(createSeries(['alice', 'bob'], null), 'alice'),
+  ...overrides,
+});
+
+describe('RematchManager', () => {
+  let emitted: { channel: string; event: string; payload: unknown }[];
+  let rematchManager: RematchManager;
+  let matches: MatchFoundEvent[];
+
+  const eventsTo = (channel: string) => emitted.filter(e => e.channel === channel).map(e => e.event);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    emitted = [];
+    const io = {
+      to: jest.fn((channel: string) => ({ emit: (event: string, payload: unknown) => emitted.push({ channel, event, payload }) })),
+    } as unknown as Server;
+    rematchManager = new RematchManager(io, { windowMs: WINDOW_MS });
+    matches = [];
+    rematchManager.on('match-found', (match: MatchFoundEvent) => matches.push(match));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts a rematch with the same settings and the other player moving first', () => {
+    rematchManager.openWindow(endedGame());
+    expect(eventsTo('user:bob')).toEqual(['game:rematchAvailable']);
+
+    expect(rematchManager.acceptRematch('bob', 'sock-bob').success).toBe(false);
+    expect(rematchManager.requestRematch('alice', 'sock-alice')).toEqual({ success: true });
+    expect(eventsTo('user:bob')).toContain('game:rematchRequested');
+    expect(matches).toHaveLength(0);
+
+    expect(rematchManager.acceptRematch('bob', 'sock-bob')).toEqual({ success: true });
+    expect(matches).toHaveLength(1);
+    expect(matches[0].players.map(p => [p.userId, p.socketId])).toEqual([['bob', 'sock-bob'], ['alice', 'sock-alice']]);
+    expect(matches[0]).toMatchObject({ queueId: 'blitz', queue: QUEUE });
+    expect(rematchManager.hasOffer('alice')).toBe(false);
+  });
+
+  it('continues the running series in the rematch', () => {
+    const game = endedGame();
+    rematchManager.openWindow(game);
+    rematchManager.requestRematch('alice', 'sock-alice');
+    rematchManager.requestRematch('bob', 'sock-bob');
+
+    expect(matches[0].seriesId).toBe(game.series.seriesId);
+    expect(rematchManager.getSeriesForMatch(matches[0])).toEqual(game.series);
+  });
+
+  it('decides a best-of-N series on the majority of wins and offers no rematch after it', () => {
+    let series = createSeries(['alice', 'bob'], 3);
+    series = recordSeriesResult(series, 'alice');
+    series = recordSeriesResult(series, null);
+    expect(series).toMatchObject({ gamesPlayed: 2, draws: 1, isComplete: false, winnerId: null });
+    series = recordSeriesResult(series, 'alice');
+    expect(series).toMatchObject({ gamesPlayed: 3, wins: { alice: 2, bob: 0 }, isComplete: true, winnerId: 'alice' });
+
+    rematchManager.openWindow(endedGame({ series }));
+    expect(rematchManager.hasOffer('alice')).toBe(false);
+    expect(eventsTo('user:bob')).toEqual([]);
+  });
+
+  it('ends a best-of-N series level on wins as a draw', () => {
+    let series = createSeries(['alice', 'bob'], 3);
+    series = recordSeriesResult(series, 'alice');
+    series = recordSeriesResult(series, 'bob');
+    series = recordSeriesResult(series, null);
+    expect(series).toMatchObject({ gamesPlayed: 3, draws: 1, isComplete: true, winnerId: null });
+  });
+
+  it('reports the final series result when the rematch is declined', () => {
+    rematchManager.openWindow(endedGame());
+    rematchManager.cancel('bob');
+
+    const ended = emitted.filter(e => e.event === 'game:seriesEnded');
+    expect(ended.map(e => e.channel)).toEqual(['user:alice', 'user:bob']);
+    expect(ended[0].payload).toMatchObject({ gameId: 'game-1', series: { gamesPlayed: 1, isComplete: true, winnerId: 'alice' } });
+    expect(closeSeries(createSeries(['alice', 'bob'], null))).toMatchObject({ isComplete: true, winnerId: null });
+  });
+
+  it('starts right away against a bot and expires when nobody asks', () => {
+    rematchManager.openWindow(endedGame({ players: [{ userId: 'alice', username: 'Alice', isBot: false }, { userId: 'bot-1', username: 'AI Bot', isBot: true }] }));
+    rematchManager.requestRematch('alice', 'sock-alice');
+    expect(matches[0].players.map(p => p.userId)).toEqual(['bot-1', 'alice']);
+
+    rematchManager.openWindow(endedGame({ gameId: 'game-2' }));
+    jest.advanceTimersByTime(WINDOW_MS);
+    expect(eventsTo('user:alice')).toEqual(expect.arrayContaining(['game:rematchExpired', 'game:seriesEnded']));
+    expect(rematchManager.requestRematch('alice', 'sock-alice').success).toBe(false);
+  });
+});
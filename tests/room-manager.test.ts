@@ -0,0 +1,110 @@
+import { Server, Socket } from 'socket.io';
+import RoomManager, { parseRoomSettings, PRIVATE_ROOM_QUEUE_ID } from '../src/room-manager';
+import { MatchFoundEvent } from '../src/match-making-manager';
+
+const DEFAULT_TIME_CONTROL = { initialTimeMs: 600000, incrementMs: 10000 };
+
+const createSocket = (id: string) => ({ id, join: jest.fn(), leave: jest.fn(), emit: jest.fn() });
+type MockSocket = ReturnType<typeof createSocket>;
+
+describe('parseRoomSettings', () => {
+  it('converts the host settings and falls back to the default clock', () => {
+    const result = parseRoomSettings({ incrementSeconds: 5, carsInDeck: 12, botsAllowed: true }, DEFAULT_TIME_CONTROL);
+
+    expect(result).toEqual({
+      success: true,
+      settings: {
+        timeControl: { initialTimeMs: 600000, incrementMs: 5000 },
+        setup: { carsInDeck: 12 },
+        botsAllowed: true,
+      },
+    });
+  });
+
+  it('reports every invalid value at once', () => {
+    const result = parseRoomSettings({ initialTimeSeconds: 5, carsInDeck: 4, initialCarCards: 3 }, DEFAULT_TIME_CONTROL);
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.message).toContain('initialTimeSeconds');
+    expect(result.message).toContain('carsInDeck: nem elég a kezdő kezekhez');
+  });
+
+  it('turns the round and series options into a match format', () => {
+    const result = parseRoomSettings({ roundWinsTarget: 3, bestOf: 5 }, DEFAULT_TIME_CONTROL);
+
+    expect(result.success && result.settings).toMatchObject({ setup: { matchFormat: { type: 'first_to', roundWins: 3 } }, bestOf: 5 });
+    expect(parseRoomSettings({ roundWinsTarget: 3, roundLimit: 10 }, DEFAULT_TIME_CONTROL).success).toBe(false);
+    expect(parseRoomSettings({ bestOf: 4 }, DEFAULT_TIME_CONTROL)).toEqual({ success: false, message: 'Érvénytelen szobabeállítások: bestOf: csak páratlan szám lehet' });
+  });
+});
+
+describe('RoomManager', () => {
+  let sockets: Map<string, MockSocket>;
+  let roomEmit: jest.Mock;
+  let io: Server;
+  let roomManager: RoomManager;
+  let matches: MatchFoundEvent[];
+
+  const createdCode = (socket: MockSocket): string =>
+    socket.emit.mock.calls.find(([event]) => event === 'room:created')![1].code;
+
+  beforeEach(() => {
+    sockets = new Map([['s1', createSocket('s1')], ['s2', createSocket('s2')], ['s3', createSocket('s3')]]);
+    roomEmit = jest.fn();
+    io = { to: jest.fn(() => ({ emit: roomEmit })), sockets: { sockets } } as unknown as Server;
+    roomManager = new RoomManager(io, { defaultTimeControl: DEFAULT_TIME_CONTROL, timeoutPolicy: { type: 'auto_play' } });
+    matches = [];
+    roomManager.on('match-found', (match: MatchFoundEvent) => matches.push(match));
+  });
+
+  it('starts the match with the room settings once both players are ready', () => {
+    const host = sockets.get('s1')!;
+    roomManager.createRoom(host as unknown as Socket, 'host', 'Host', { initialTimeSeconds: 120, handSizeLimit: 8 });
+    const code = createdCode(host);
+    expect(code).toMatch(/^[A-Z2-9]{6}$/);
+
+    roomManager.joinRoom(sockets.get('s2') as unknown as Socket, 'friend', 'Friend', code.toLowerCase());
+    roomManager.setReady('host', true);
+    expect(matches).toHaveLength(0);
+    roomManager.setReady('friend', true);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].queueId).toBe(PRIVATE_ROOM_QUEUE_ID);
+    expect(matches[0].players.map(p => p.userId)).toEqual(['host', 'friend']);
+    expect(matches[0].queue).toEqual({
+      timeControl: { initialTimeMs: 120000, incrementMs: 10000 },
+      timeoutPolicy: { type: 'auto_play' },
+      setup: { handSizeLimit: 8 },
+    });
+    expect(roomManager.isInRoom('host')).toBe(false);
+  });
+
+  it('rejects a third player and closes the room when the host leaves', () => {
+    const host = sockets.get('s1')!;
+    roomManager.createRoom(host as unknown as Socket, 'host', 'Host');
+    const code = createdCode(host);
+    roomManager.joinRoom(sockets.get('s2') as unknown as Socket, 'friend', 'Friend', code);
+
+    const latecomer = sockets.get('s3')!;
+    roomManager.joinRoom(latecomer as unknown as Socket, 'late', 'Late', code);
+    expect(latecomer.emit).toHaveBeenCalledWith('room:error', { message: 'A szoba megtelt.' });
+
+    roomManager.leaveRoom('host');
+    expect(roomEmit).toHaveBeenCalledWith('room:closed', expect.objectContaining({ code }));
+    expect(roomManager.isInRoom('friend')).toBe(false);
+  });
+
+  it('lets the host fill the empty seat with a bot only when bots are allowed', () => {
+    roomManager.createRoom(sockets.get('s1') as unknown as Socket, 'host', 'Host');
+    expect(roomManager.addBot('host').success).toBe(false);
+    roomManager.leaveRoom('host');
+
+    roomManager.createRoom(sockets.get('s1') as unknown as Socket, 'host', 'Host', { botsAllowed: true });
+    expect(roomManager.addBot('host')).toEqual({ success: true });
+    roomManager.setReady('host', true);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].players.map(p => p.isBot)).toEqual([false, true]);
+  });
+});
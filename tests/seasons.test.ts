@@ -0,0 +1,28 @@
+import { DEFAULT_SEASON_RULES, getPreviousSeason, getSeasonAt, parseSeasons, softResetRating } from '../src/seasons';
+
+describe('Seasons', () => {
+  it('parses and orders the configured seasons', () => {
+    const seasons = parseSeasons([
+      { id: 's2', name: 'Tavasz', startsAt: '2026-04-01T00:00:00Z', endsAt: '2026-07-01T00:00:00Z' },
+      { id: 's1', startsAt: '2026-01-01T00:00:00Z', endsAt: '2026-04-01T00:00:00Z' },
+    ]);
+
+    expect(seasons.map(s => [s.id, s.name])).toEqual([['s1', 's1'], ['s2', 'Tavasz']]);
+    expect(getSeasonAt(seasons, Date.parse('2026-04-01T00:00:00Z'))?.id).toBe('s2');
+    expect(getSeasonAt(seasons, Date.parse('2026-08-01T00:00:00Z'))).toBeNull();
+    expect(getPreviousSeason(seasons, seasons[1])?.id).toBe('s1');
+  });
+
+  it('rejects invalid and overlapping seasons', () => {
+    expect(() => parseSeasons([{ id: 's1', startsAt: '2026-02-01', endsAt: '2026-01-01' }])).toThrow('startsAt < endsAt');
+    expect(() => parseSeasons([
+      { id: 's1', startsAt: '2026-01-01', endsAt: '2026-03-01' },
+      { id: 's2', startsAt: '2026-02-01', endsAt: '2026-04-01' },
+    ])).toThrow('overlap');
+  });
+
+  it('pulls the rating halfway back to the average and raises the deviation', () => {
+    expect(softResetRating({ rating: 1900, deviation: 60 }, 1500, DEFAULT_SEASON_RULES)).toEqual({ rating: 1700, deviation: 250 });
+    expect(softResetRating({ rating: 1300, deviation: 300 }, 1500, DEFAULT_SEASON_RULES)).toEqual({ rating: 1400, deviation: 300 });
+  });
+});